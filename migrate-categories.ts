@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { Category } from './src/models/Category.js';
+import { connectDB } from './src/config/mongodb.js';
+import { slugifyCategory } from './src/services/categoryService.js';
+
+dotenv.config();
+
+/**
+ * Replace the free-text product category with a reference to a Category.
+ * Spellings that only differ in case or punctuation ("T-Shirts", "Tshirts",
+ * "t-shirts") end up in one category. Safe to run more than once.
+ */
+
+// "T-Shirts", "Tshirts" and "t shirts" all become "tshirts"
+function categoryKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+async function migrateCategories() {
+  try {
+    console.log('🔄 Migrating product categories...');
+
+    await connectDB();
+
+    const products = mongoose.connection.collection('products');
+
+    // Product counts per spelling, so the most used one names the category
+    const spellings = await products.aggregate<{ _id: string; count: number }>([
+      { $match: { category: { $type: 'string' } } },
+      { $group: { _id: '$category', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+    ]).toArray();
+
+    const categoryIds = new Map<string, mongoose.Types.ObjectId>();
+
+    // Categories created by an earlier run (or by hand) are reused
+    const existing = await Category.find();
+    existing.forEach(category => {
+      categoryIds.set(categoryKey(category.name), category._id as mongoose.Types.ObjectId);
+      categoryIds.set(categoryKey(category.slug), category._id as mongoose.Types.ObjectId);
+    });
+
+    let created = 0;
+    for (const { _id: name } of spellings) {
+      const key = categoryKey(name);
+      if (!key || categoryIds.has(key)) continue;
+
+      const category = await Category.create({
+        name: name.trim(),
+        slug: slugifyCategory(name),
+      });
+      categoryIds.set(key, category._id as mongoose.Types.ObjectId);
+      created++;
+    }
+
+    let migrated = 0;
+    for (const { _id: name } of spellings) {
+      const categoryId = categoryIds.get(categoryKey(name));
+      if (!categoryId) {
+        console.warn(`   ⚠️  No category for "${name}", products left unchanged`);
+        continue;
+      }
+
+      const result = await products.updateMany({ category: name }, { $set: { category: categoryId } });
+      migrated += result.modifiedCount;
+    }
+
+    console.log(`   - ${created} categories created`);
+    console.log(`   - ${migrated} products`);
+    console.log('\n🎉 Migration complete!');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating categories:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration
+migrateCategories();
@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDB } from './src/config/mongodb.js';
+
+dotenv.config();
+
+/**
+ * Move products from colors/sizes/inventory to variants, then point cart and
+ * order items at their variant. Safe to run more than once.
+ */
+
+function generateSku(slug: string, color: string, size: string): string {
+  return `${slug}-${color}-${size}`.toUpperCase().replace(/\s+/g, '-');
+}
+
+async function migrateProducts() {
+  const products = mongoose.connection.collection('products');
+  const cursor = products.find({ inventory: { $exists: true } });
+  let migrated = 0;
+
+  for await (const product of cursor) {
+    const inventory: any[] = product.inventory || [];
+    const existing: any[] = product.variants || [];
+    const variants: any[] = [...existing];
+
+    const hasVariant = (color: string, size: string) =>
+      variants.some(variant => variant.color === color && variant.size === size);
+
+    // Inventory rows carry the stock and SKU
+    for (const item of inventory) {
+      if (!item.color || !item.size || hasVariant(item.color, item.size)) continue;
+      variants.push({
+        _id: new mongoose.Types.ObjectId(),
+        sku: (item.sku || generateSku(product.slug, item.color, item.size)).toUpperCase(),
+        color: item.color,
+        size: item.size,
+        images: [],
+        stock: item.stock || 0,
+        isActive: true,
+      });
+    }
+
+    // Advertised combinations without an inventory row are out of stock
+    for (const color of product.colors || []) {
+      for (const size of product.sizes || []) {
+        if (hasVariant(color, size.name)) continue;
+        variants.push({
+          _id: new mongoose.Types.ObjectId(),
+          sku: generateSku(product.slug, color, size.name),
+          color,
+          size: size.name,
+          images: [],
+          stock: 0,
+          isActive: true,
+        });
+      }
+    }
+
+    await products.updateOne(
+      { _id: product._id },
+      {
+        $set: {
+          variants,
+          colors: [...new Set(variants.map(variant => variant.color))],
+        },
+        $unset: { inventory: 1 },
+      }
+    );
+    migrated++;
+  }
+
+  console.log(`   - ${migrated} products`);
+}
+
+/**
+ * Look up the variant for a color and size, by product
+ */
+async function loadVariantLookup() {
+  const lookup = new Map<string, mongoose.Types.ObjectId>();
+  const cursor = mongoose.connection.collection('products').find({}, { projection: { variants: 1 } });
+
+  for await (const product of cursor) {
+    for (const variant of product.variants || []) {
+      lookup.set(`${product._id}\u0000${variant.color}\u0000${variant.size}`, variant._id);
+    }
+  }
+
+  return (item: any) => lookup.get(`${item.product}\u0000${item.color}\u0000${item.size}`);
+}
+
+async function migrateCarts(findVariant: (item: any) => mongoose.Types.ObjectId | undefined) {
+  const carts = mongoose.connection.collection('carts');
+  const cursor = carts.find({ 'items.variant': { $exists: false }, 'items.0': { $exists: true } });
+  let migrated = 0;
+  let dropped = 0;
+
+  for await (const cart of cursor) {
+    const items: any[] = [];
+
+    for (const item of cart.items) {
+      const variant = item.variant || findVariant(item);
+      if (variant) {
+        items.push({ ...item, variant });
+      } else {
+        // The combination was never sold - nothing to point at
+        dropped++;
+      }
+    }
+
+    await carts.updateOne({ _id: cart._id }, { $set: { items } });
+    migrated++;
+  }
+
+  console.log(`   - ${migrated} carts (${dropped} unavailable items removed)`);
+}
+
+async function migrateOrders(findVariant: (item: any) => mongoose.Types.ObjectId | undefined) {
+  const orders = mongoose.connection.collection('orders');
+  const cursor = orders.find({ 'items.variant': { $exists: false }, 'items.0': { $exists: true } });
+  let migrated = 0;
+
+  for await (const order of cursor) {
+    // Orders are history - keep every item, even without a matching variant
+    const items = order.items.map((item: any) => {
+      const variant = item.variant || findVariant(item);
+      return variant ? { ...item, variant } : item;
+    });
+
+    await orders.updateOne({ _id: order._id }, { $set: { items } });
+    migrated++;
+  }
+
+  console.log(`   - ${migrated} orders`);
+}
+
+async function migrateVariants() {
+  try {
+    console.log('🔄 Migrating products to variants...');
+
+    await connectDB();
+
+    await migrateProducts();
+
+    const findVariant = await loadVariantLookup();
+    await migrateCarts(findVariant);
+    await migrateOrders(findVariant);
+
+    console.log('\n🎉 Migration complete!');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating variants:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration
+migrateVariants();
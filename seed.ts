@@ -1,10 +1,56 @@
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import { Product } from './src/models/Product.js';
+import { Category } from './src/models/Category.js';
 import { connectDB } from './src/config/mongodb.js';
 
 dotenv.config();
 
+// Sample categories data (products refer to them by name below)
+const sampleCategories = [
+  {
+    name: 'T-Shirts',
+    slug: 't-shirts',
+    description: 'Hand-dyed cotton t-shirts in every colour of the rainbow.',
+    sortOrder: 1,
+    metaTitle: 'Tie-Dye T-Shirts | Mama Dye Dreams',
+    metaDescription: 'Shop hand-dyed tie-dye t-shirts made from premium cotton.',
+    metaKeywords: ['tie-dye t-shirt', 'hand-dyed tee']
+  },
+  {
+    name: 'Hoodies',
+    slug: 'hoodies',
+    description: 'Cozy hand-dyed hoodies for chilly evenings.',
+    sortOrder: 2,
+    metaTitle: 'Tie-Dye Hoodies | Mama Dye Dreams',
+    metaDescription: 'Warm, hand-dyed tie-dye hoodies in sunset and ocean colours.',
+    metaKeywords: ['tie-dye hoodie']
+  },
+  {
+    name: 'Sweatshirts',
+    slug: 'sweatshirts',
+    description: 'Soft hand-dyed sweatshirts.',
+    sortOrder: 3,
+    metaKeywords: ['tie-dye sweatshirt']
+  },
+  {
+    name: 'Tank Tops',
+    slug: 'tank-tops',
+    parent: 'T-Shirts',
+    description: 'Sleeveless tie-dye for summer.',
+    sortOrder: 1,
+    metaKeywords: ['tie-dye tank top']
+  },
+  {
+    name: 'Crop Tops',
+    slug: 'crop-tops',
+    parent: 'T-Shirts',
+    description: 'Cropped hand-dyed tops.',
+    sortOrder: 2,
+    metaKeywords: ['tie-dye crop top']
+  }
+];
+
 // Sample products data
 const sampleProducts = [
   {
@@ -27,7 +73,7 @@ const sampleProducts = [
       { name: 'XL', measurements: { chest: 42, length: 29, shoulder: 19 } },
       { name: 'XXL', measurements: { chest: 44, length: 30, shoulder: 20 } }
     ],
-    inventory: [
+    variants: [
       { color: 'Rainbow', size: 'S', stock: 10, sku: 'RTD-RAIN-S-001' },
       { color: 'Rainbow', size: 'M', stock: 15, sku: 'RTD-RAIN-M-001' },
       { color: 'Rainbow', size: 'L', stock: 20, sku: 'RTD-RAIN-L-001' },
@@ -67,7 +113,7 @@ const sampleProducts = [
       { name: 'XL', measurements: { chest: 44, length: 29, shoulder: 20 } },
       { name: 'XXL', measurements: { chest: 46, length: 30, shoulder: 21 } }
     ],
-    inventory: [
+    variants: [
       { color: 'Sunset Orange', size: 'S', stock: 8, sku: 'STD-ORAN-S-001' },
       { color: 'Sunset Orange', size: 'M', stock: 12, sku: 'STD-ORAN-M-001' },
       { color: 'Sunset Orange', size: 'L', stock: 15, sku: 'STD-ORAN-L-001' },
@@ -106,7 +152,7 @@ const sampleProducts = [
       { name: 'L', measurements: { chest: 38, length: 26, shoulder: 16 } },
       { name: 'XL', measurements: { chest: 40, length: 27, shoulder: 17 } }
     ],
-    inventory: [
+    variants: [
       { color: 'Ocean Blue', size: 'S', stock: 12, sku: 'OTD-BLUE-S-001' },
       { color: 'Ocean Blue', size: 'M', stock: 18, sku: 'OTD-BLUE-M-001' },
       { color: 'Ocean Blue', size: 'L', stock: 20, sku: 'OTD-BLUE-L-001' },
@@ -142,7 +188,7 @@ const sampleProducts = [
       { name: 'XL', measurements: { chest: 44, length: 29, shoulder: 20 } },
       { name: 'XXL', measurements: { chest: 46, length: 30, shoulder: 21 } }
     ],
-    inventory: [
+    variants: [
       { color: 'Deep Purple', size: 'M', stock: 10, sku: 'GTD-PURP-M-001' },
       { color: 'Deep Purple', size: 'L', stock: 15, sku: 'GTD-PURP-L-001' },
       { color: 'Deep Purple', size: 'XL', stock: 12, sku: 'GTD-PURP-XL-001' },
@@ -178,7 +224,7 @@ const sampleProducts = [
       { name: 'M', measurements: { chest: 36, length: 20, shoulder: 15 } },
       { name: 'L', measurements: { chest: 38, length: 21, shoulder: 16 } }
     ],
-    inventory: [
+    variants: [
       { color: 'Pink Pastel', size: 'XS', stock: 15, sku: 'PTD-PINK-XS-001' },
       { color: 'Pink Pastel', size: 'S', stock: 20, sku: 'PTD-PINK-S-001' },
       { color: 'Pink Pastel', size: 'M', stock: 18, sku: 'PTD-PINK-M-001' },
@@ -205,12 +251,26 @@ async function seedProducts() {
     // Connect to MongoDB
     await connectDB();
 
-    // Clear existing products (optional - comment out if you want to keep existing)
+    // Clear existing products and categories (optional - comment out if you want to keep existing)
     await Product.deleteMany({});
-    console.log('🗑️  Cleared existing products');
+    await Category.deleteMany({});
+    console.log('🗑️  Cleared existing products and categories');
+
+    // Insert sample categories, parents first
+    const categoryIds = new Map<string, mongoose.Types.ObjectId>();
+    for (const { parent, ...data } of sampleCategories) {
+      const category = await Category.create({
+        ...data,
+        parent: parent ? categoryIds.get(parent) : null
+      });
+      categoryIds.set(category.name, category._id as mongoose.Types.ObjectId);
+    }
+    console.log(`✅ Successfully seeded ${sampleCategories.length} categories`);
 
     // Insert sample products
-    const products = await Product.insertMany(sampleProducts);
+    const products = await Product.insertMany(
+      sampleProducts.map(product => ({ ...product, category: categoryIds.get(product.category) }))
+    );
     console.log(`✅ Successfully seeded ${products.length} products`);
 
     // Display created products
@@ -1,21 +1,28 @@
 import express from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
-import session from 'express-session';
-import MongoStore from 'connect-mongo';
 import dotenv from 'dotenv';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import mongoSanitize from 'express-mongo-sanitize';
 import { connectDB } from './src/config/mongodb.js';
+import { sessionMiddleware } from './src/config/session.js';
 import authRoutes from './src/routes/auth.js';
 import healthRoutes from './src/routes/health.js';
 import productRoutes from './src/routes/products.js';
+import categoryRoutes from './src/routes/categories.js';
+import reviewRoutes from './src/routes/reviews.js';
 import cartRoutes from './src/routes/cart.js';
 import orderRoutes from './src/routes/orders.js';
 import paymentRoutes from './src/routes/payment.js';
+import userRoutes from './src/routes/users.js';
 import adminProductsRoutes from './src/routes/adminProducts.js';
+import adminCategoriesRoutes from './src/routes/adminCategories.js';
+import adminReviewsRoutes from './src/routes/adminReviews.js';
 import adminAnalyticsRoutes from './src/routes/adminAnalytics.js';
+import adminUsersRoutes from './src/routes/adminUsers.js';
+import adminAuditRoutes from './src/routes/adminAudit.js';
+import adminApiKeysRoutes from './src/routes/adminApiKeys.js';
 import uploadRoutes from './src/routes/upload.js';
 
 // Load environment variables
@@ -28,6 +35,17 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:8080';
 
+// Behind API Gateway / a load balancer the client IP is in X-Forwarded-For.
+// Rate limits and login throttling key on req.ip, so this must match the deployment.
+const TRUST_PROXY = process.env.TRUST_PROXY || (process.env.AWS_LAMBDA_FUNCTION_NAME ? '1' : 'false');
+app.set(
+  'trust proxy',
+  TRUST_PROXY === 'true' ? true
+    : TRUST_PROXY === 'false' ? false
+    : /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY)
+    : TRUST_PROXY
+);
+
 // Security Middleware
 app.use(helmet());
 app.use(mongoSanitize());
@@ -45,8 +63,9 @@ app.use(
   cors({
     origin: CORS_ORIGIN,
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    exposedHeaders: ['X-Impersonated-By'],
   })
 );
 
@@ -56,34 +75,25 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
 
 // Session configuration with MongoDB store for persistence
-app.use(
-  session({
-    secret: process.env.SESSION_SECRET || 'your-super-secret-session-key-change-this',
-    resave: false,
-    saveUninitialized: false,
-    store: MongoStore.create({
-      mongoUrl: process.env.MONGODB_URI || 'mongodb://localhost:27017/mama_dye_dreams',
-      collectionName: 'sessions',
-      touchAfter: 24 * 3600, // Lazy session update (seconds)
-    }),
-    cookie: {
-      secure: process.env.NODE_ENV === 'production', // Use secure cookies in production (HTTPS)
-      httpOnly: true, // Prevent XSS attacks
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax', // 'none' for cross-site in production
-    },
-  })
-);
+app.use(sessionMiddleware);
 
 // Routes
 app.use('/health', healthRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/products', productRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/reviews', reviewRoutes);
 app.use('/api/cart', cartRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/payment', paymentRoutes);
+app.use('/api/users', userRoutes);
 app.use('/api/admin/products', adminProductsRoutes);
+app.use('/api/admin/categories', adminCategoriesRoutes);
+app.use('/api/admin/reviews', adminReviewsRoutes);
 app.use('/api/admin/analytics', adminAnalyticsRoutes);
+app.use('/api/admin/users', adminUsersRoutes);
+app.use('/api/admin/audit', adminAuditRoutes);
+app.use('/api/admin/api-keys', adminApiKeysRoutes);
 app.use('/api/upload', uploadRoutes);
 
 // Error handling middleware
@@ -0,0 +1,54 @@
+/**
+ * Staff roles and the permissions they grant.
+ * Admin routes check permissions (requirePermission), never role names.
+ */
+export const PERMISSIONS = [
+  'products:read',
+  'products:write',
+  'products:delete',
+  'inventory:write',
+  'uploads:create',
+  'reviews:moderate',
+  'orders:read',
+  'orders:update-status',
+  'refunds:create',
+  'analytics:read',
+  'users:read',
+  'users:write',
+  'users:impersonate',
+  'audit:read',
+  'api-keys:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Permissions that can be granted to API keys - keys can't mint other keys, change staff accounts or act as customers
+export const API_KEY_PERMISSIONS: readonly Permission[] = PERMISSIONS.filter(
+  permission => !['api-keys:manage', 'users:write', 'users:impersonate'].includes(permission)
+);
+
+export const ROLES = ['customer', 'admin', 'catalog_editor', 'fulfillment', 'finance'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  customer: [],
+  admin: PERMISSIONS,
+  catalog_editor: ['products:read', 'products:write', 'inventory:write', 'uploads:create', 'reviews:moderate'],
+  fulfillment: ['products:read', 'inventory:write', 'orders:read', 'orders:update-status'],
+  finance: ['orders:read', 'refunds:create', 'analytics:read'],
+};
+
+/**
+ * Permissions granted by a role (unknown roles get none)
+ */
+export const getRolePermissions = (role: string): Permission[] => {
+  return [...(ROLE_PERMISSIONS[role as Role] || [])];
+};
+
+/**
+ * Whether a role grants a permission
+ */
+export const hasPermission = (role: string, permission: Permission): boolean => {
+  return getRolePermissions(role).includes(permission);
+};
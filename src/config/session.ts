@@ -0,0 +1,37 @@
+import session from 'express-session';
+import MongoStore from 'connect-mongo';
+
+// Shared so signed out / revoked devices can have their cookie session destroyed too
+export const sessionStore = MongoStore.create({
+  mongoUrl: process.env.MONGODB_URI || 'mongodb://localhost:27017/mama_dye_dreams',
+  collectionName: 'sessions',
+  touchAfter: 24 * 3600, // Lazy session update (seconds)
+});
+
+// Session configuration with MongoDB store for persistence
+export const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || 'your-super-secret-session-key-change-this',
+  resave: false,
+  saveUninitialized: false,
+  store: sessionStore,
+  cookie: {
+    secure: process.env.NODE_ENV === 'production', // Use secure cookies in production (HTTPS)
+    httpOnly: true, // Prevent XSS attacks
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax', // 'none' for cross-site in production
+  },
+});
+
+/**
+ * Remove a stored express session. Failures are logged, never thrown.
+ */
+export function destroyStoredSession(sessionId: string): Promise<void> {
+  return new Promise((resolve) => {
+    sessionStore.destroy(sessionId, (error?: any) => {
+      if (error) {
+        console.error('Error destroying session:', error);
+      }
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,59 @@
+import { appendFile } from 'fs/promises';
+
+/**
+ * Anything that can deliver a text message. Add a provider implementation
+ * (e.g. MSG91, Twilio, SNS) here and select it with SMS_PROVIDER.
+ */
+export interface SmsSender {
+  send(to: string, message: string): Promise<void>;
+}
+
+/**
+ * Logs messages to the console (local development)
+ */
+export class ConsoleSmsSender implements SmsSender {
+  async send(to: string, message: string): Promise<void> {
+    console.log(`📱 SMS to ${to}: ${message}`);
+  }
+}
+
+/**
+ * Appends messages as JSON lines to a file, so tests can read the codes back
+ */
+export class FileSmsSender implements SmsSender {
+  constructor(private readonly filePath: string) {}
+
+  async send(to: string, message: string): Promise<void> {
+    const line = JSON.stringify({ to, message, sentAt: new Date().toISOString() });
+    await appendFile(this.filePath, `${line}\n`, 'utf8');
+  }
+}
+
+/**
+ * Create the SMS sender configured through SMS_PROVIDER ('console' | 'file')
+ */
+export const createSmsSender = (): SmsSender => {
+  switch (process.env.SMS_PROVIDER) {
+    case 'file':
+      return new FileSmsSender(process.env.SMS_OUTBOX_FILE || '/tmp/sms-outbox.log');
+    case 'console':
+    default:
+      return new ConsoleSmsSender();
+  }
+};
+
+export const smsSender = createSmsSender();
+
+/**
+ * Send a text message through the configured sender
+ * @param to Phone number in +91XXXXXXXXXX format
+ * @param message Message body
+ */
+export const sendSms = async (to: string, message: string): Promise<void> => {
+  try {
+    await smsSender.send(to, message);
+  } catch (error) {
+    console.error('Error sending SMS:', error);
+    throw new Error('Failed to send SMS');
+  }
+};
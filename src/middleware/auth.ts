@@ -1,17 +1,40 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../services/authService.js';
+import { verifyToken, Impersonator } from '../services/authService.js';
+import { IUser } from '../models/User.js';
+import { IApiKey } from '../models/ApiKey.js';
+import { authenticateApiKey } from '../services/apiKeyService.js';
+import { recordAudit } from '../services/auditService.js';
+import { Permission, getRolePermissions } from '../config/permissions.js';
+import { needsTwoFactorEnrolment } from '../services/twoFactorService.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     email: string;
     userId: string;
+    role: IUser['role'] | 'api_key';
     isAdmin: boolean;
+    permissions: Permission[];
     accessToken?: string;
+    sessionId?: string;
+    impersonator?: Impersonator;
   };
+  mongoUser?: IUser;
+  apiKey?: IApiKey;
 }
 
+// Requests an impersonation session may always make, even when read-only
+const IMPERSONATION_ALLOWED_WRITES = ['/api/auth/logout'];
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const TWO_FACTOR_REQUIRED = {
+  success: false,
+  error: 'Two-factor authentication must be enabled for admin accounts',
+  code: 'TWO_FACTOR_REQUIRED',
+};
+
 /**
- * Middleware to verify authentication
+ * Middleware to verify authentication (Bearer token or session token).
+ * Loads the MongoDB user by ID into req.mongoUser.
  */
 export async function requireAuth(
   req: AuthenticatedRequest,
@@ -34,13 +57,52 @@ export async function requireAuth(
     }
 
     // Verify token and get user info
-    const user = await verifyToken(token);
+    const result = await verifyToken(token);
+
+    if (result.user.isDisabled) {
+      return res.status(403).json({
+        success: false,
+        error: 'This account has been disabled',
+      });
+    }
+
     req.user = {
-      email: user.email,
-      userId: user.userId,
-      isAdmin: user.isAdmin,
+      email: result.email,
+      userId: result.userId,
+      role: result.role,
+      isAdmin: result.isAdmin,
+      permissions: getRolePermissions(result.role),
       accessToken: token,
+      sessionId: result.sessionId,
+      impersonator: result.impersonator,
     };
+    req.mongoUser = result.user;
+
+    if (result.impersonator) {
+      const path = req.originalUrl.split('?')[0];
+
+      // Make the session obvious to the frontend and log every request, including rejected ones
+      res.set('X-Impersonated-By', result.impersonator.email);
+      res.on('finish', () => {
+        recordAudit(req, {
+          action: 'impersonation.request',
+          targetType: 'user',
+          targetId: result.userId,
+          metadata: { method: req.method, path, statusCode: res.statusCode },
+        });
+      });
+
+      if (
+        result.impersonator.readOnly &&
+        !SAFE_METHODS.includes(req.method) &&
+        !IMPERSONATION_ALLOWED_WRITES.includes(path)
+      ) {
+        return res.status(403).json({
+          success: false,
+          error: 'This impersonation session is read-only',
+        });
+      }
+    }
 
     next();
   } catch (error: any) {
@@ -51,6 +113,62 @@ export async function requireAuth(
   }
 }
 
+/**
+ * Like requireAuth, but also accepts a scoped API key in the X-API-Key header.
+ * Key requests get the key's permissions and no req.mongoUser, so only use
+ * this on routes that don't act on behalf of the logged in customer.
+ */
+export async function requireAuthOrApiKey(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const key = req.get('x-api-key');
+
+  if (!key) {
+    return requireAuth(req, res, next);
+  }
+
+  try {
+    const apiKey = await authenticateApiKey(key, req.ip);
+
+    req.apiKey = apiKey;
+    req.user = {
+      email: `api-key:${apiKey.name}`,
+      userId: String(apiKey._id),
+      role: 'api_key',
+      isAdmin: false,
+      permissions: [...apiKey.permissions],
+    };
+
+    next();
+  } catch (error: any) {
+    return res.status(401).json({
+      success: false,
+      error: error.message || 'Invalid API key',
+    });
+  }
+}
+
+/**
+ * Middleware to block account security actions (password, 2FA, deletion,
+ * payments...) while an admin is impersonating the customer
+ */
+export function denyImpersonation(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  if (req.user?.impersonator) {
+    return res.status(403).json({
+      success: false,
+      error: 'Not available while impersonating a customer',
+    });
+  }
+
+  next();
+}
+
 /**
  * Middleware to verify admin access
  */
@@ -73,6 +191,38 @@ export function requireAdmin(
     });
   }
 
+  if (req.mongoUser && needsTwoFactorEnrolment(req.mongoUser)) {
+    return res.status(403).json(TWO_FACTOR_REQUIRED);
+  }
+
   next();
 }
 
+/**
+ * Middleware factory to require every listed permission (see config/permissions)
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const missing = permissions.filter(permission => !req.user!.permissions.includes(permission));
+
+    if (missing.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `Missing permission: ${missing.join(', ')}`,
+      });
+    }
+
+    if (req.mongoUser && needsTwoFactorEnrolment(req.mongoUser)) {
+      return res.status(403).json(TWO_FACTOR_REQUIRED);
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { API_KEY_PERMISSIONS, Permission } from '../config/permissions.js';
+
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  permissions: Permission[];
+  createdBy: mongoose.Types.ObjectId;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    // Public part of the key (mdd_<prefix>_<secret>), used to find and identify it
+    prefix: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    // sha256 of the full key - the key itself is only shown once, on creation
+    keyHash: {
+      type: String,
+      required: true,
+      select: false
+    },
+    permissions: {
+      type: [String],
+      enum: API_KEY_PERMISSIONS,
+      default: []
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    lastUsedAt: { type: Date },
+    lastUsedIp: { type: String },
+    expiresAt: { type: Date },
+    revokedAt: { type: Date },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'api_keys'
+  }
+);
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
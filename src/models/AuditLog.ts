@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface IAuditLog extends Document {
+  actor?: mongoose.Types.ObjectId;
+  actorEmail: string;
+  actorRole?: string;
+  apiKey?: mongoose.Types.ObjectId;
+  impersonatedUser?: mongoose.Types.ObjectId;
+  action: string;
+  targetType: string;
+  targetId?: string;
+  diff: Record<string, IAuditChange>;
+  metadata?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true
+    },
+    actorEmail: {
+      type: String,
+      required: true
+    },
+    actorRole: { type: String },
+    // Set when the action was performed with an API key instead of a user login
+    apiKey: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+      index: true,
+      sparse: true
+    },
+    // Customer the actor was acting as (impersonation)
+    impersonatedUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+      sparse: true
+    },
+    // e.g. 'product.update', 'order.status-change'
+    action: {
+      type: String,
+      required: true,
+      index: true
+    },
+    targetType: {
+      type: String,
+      required: true
+    },
+    targetId: { type: String },
+    diff: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    metadata: { type: Schema.Types.Mixed },
+    ip: { type: String },
+    userAgent: { type: String },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'audit_logs',
+    minimize: false
+  }
+);
+
+// Append-only: entries can be created but never changed or removed
+const rejectMutation = function () {
+  throw new Error('Audit log entries are append-only');
+};
+auditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectMutation
+);
+auditLogSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+auditLogSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Audit log entries are append-only'));
+  }
+  next();
+});
+
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
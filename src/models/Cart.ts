@@ -1,7 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { IVariant } from './Product.js';
 
 export interface ICartItem {
   product: mongoose.Types.ObjectId;
+  variant: mongoose.Types.ObjectId;
   color: string;
   size: string;
   quantity: number;
@@ -17,21 +19,18 @@ export interface ICart extends Document {
   subtotal: number;
   addItem(
     productId: mongoose.Types.ObjectId,
-    color: string,
-    size: string,
+    variant: IVariant,
     quantity: number,
     price: number
   ): Promise<ICart>;
   updateItemQuantity(
     productId: mongoose.Types.ObjectId,
-    color: string,
-    size: string,
+    variantId: mongoose.Types.ObjectId | string,
     quantity: number
   ): Promise<ICart>;
   removeItem(
     productId: mongoose.Types.ObjectId,
-    color: string,
-    size: string
+    variantId: mongoose.Types.ObjectId | string
   ): Promise<ICart>;
   clearCart(): Promise<ICart>;
 }
@@ -42,6 +41,11 @@ const cartItemSchema = new Schema<ICartItem>({
     ref: 'Product',
     required: true
   },
+  variant: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  // Variant labels kept for display
   color: {
     type: String,
     required: true
@@ -90,30 +94,35 @@ cartSchema.virtual('subtotal').get(function () {
   return this.items.reduce((total, item) => total + (item.price * item.quantity), 0);
 });
 
+// Whether a cart item is the given product variant
+const isSameItem = (
+  item: ICartItem,
+  productId: mongoose.Types.ObjectId | string,
+  variantId: mongoose.Types.ObjectId | string
+) => item.product.toString() === productId.toString() && String(item.variant) === String(variantId);
+
 // Method to add item to cart
 cartSchema.methods.addItem = function (
   productId: mongoose.Types.ObjectId,
-  color: string,
-  size: string,
+  variant: IVariant,
   quantity: number,
   price: number
 ) {
   const existingItemIndex = this.items.findIndex(
-    (item: ICartItem) =>
-      item.product.toString() === productId.toString() &&
-      item.color === color &&
-      item.size === size
+    (item: ICartItem) => isSameItem(item, productId, variant._id!)
   );
 
   if (existingItemIndex > -1) {
-    // Update quantity if item exists
+    // Update quantity and price if item exists
     this.items[existingItemIndex].quantity += quantity;
+    this.items[existingItemIndex].price = price;
   } else {
     // Add new item
     this.items.push({
       product: productId,
-      color,
-      size,
+      variant: variant._id,
+      color: variant.color,
+      size: variant.size,
       quantity,
       price,
     });
@@ -125,15 +134,11 @@ cartSchema.methods.addItem = function (
 // Method to update item quantity
 cartSchema.methods.updateItemQuantity = function (
   productId: mongoose.Types.ObjectId,
-  color: string,
-  size: string,
+  variantId: mongoose.Types.ObjectId | string,
   quantity: number
 ) {
   const itemIndex = this.items.findIndex(
-    (item: ICartItem) =>
-      item.product.toString() === productId.toString() &&
-      item.color === color &&
-      item.size === size
+    (item: ICartItem) => isSameItem(item, productId, variantId)
   );
 
   if (itemIndex > -1) {
@@ -151,15 +156,10 @@ cartSchema.methods.updateItemQuantity = function (
 // Method to remove item from cart
 cartSchema.methods.removeItem = function (
   productId: mongoose.Types.ObjectId,
-  color: string,
-  size: string
+  variantId: mongoose.Types.ObjectId | string
 ) {
   this.items = this.items.filter(
-    (item: ICartItem) => !(
-      item.product.toString() === productId.toString() &&
-      item.color === color &&
-      item.size === size
-    )
+    (item: ICartItem) => !isSameItem(item, productId, variantId)
   );
 
   return this.save();
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICategory extends Document {
+  name: string;
+  slug: string;
+  parent?: mongoose.Types.ObjectId | null;
+  description?: string;
+  image?: string;
+  sortOrder: number;
+  isActive: boolean;
+  metaTitle?: string;
+  metaDescription?: string;
+  metaKeywords: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const categorySchema = new Schema<ICategory>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true
+    },
+    // Top level categories have no parent
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      index: true
+    },
+    description: { type: String },
+    image: { type: String },
+    sortOrder: {
+      type: Number,
+      default: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true
+    },
+    metaTitle: {
+      type: String,
+      trim: true,
+      maxlength: 70
+    },
+    metaDescription: {
+      type: String,
+      trim: true,
+      maxlength: 160
+    },
+    metaKeywords: [{
+      type: String,
+      lowercase: true,
+      trim: true
+    }],
+  },
+  {
+    timestamps: true,
+    collection: 'categories'
+  }
+);
+
+categorySchema.index({ parent: 1, sortOrder: 1, name: 1 });
+
+export const Category = mongoose.model<ICategory>('Category', categorySchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILoginAttempt extends Document {
+  key: string;
+  failures: number;
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    // 'email:<address>' or 'ip:<address>'
+    key: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    failures: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    lastFailureAt: { type: Date },
+    lockedUntil: { type: Date },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'login_attempts'
+  }
+);
+
+// Counters are forgotten some time after the last failure
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
@@ -12,6 +12,7 @@ export type OrderStatus =
 
 export interface IOrderItem {
   product: mongoose.Types.ObjectId;
+  variant?: mongoose.Types.ObjectId; // Missing on orders placed before variants
   productName: string;
   productImage: string;
   color: string;
@@ -19,6 +20,7 @@ export interface IOrderItem {
   quantity: number;
   price: number;
   sku: string;
+  stockDeducted?: boolean; // Whether the quantity was taken out of stock
 }
 
 export interface IShippingAddress {
@@ -61,6 +63,7 @@ export interface IOrder extends Document {
   carrier?: string;
   deliveredAt?: Date;
   notes?: string;
+  stockShortfall: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -71,6 +74,7 @@ const orderItemSchema = new Schema<IOrderItem>({
     ref: 'Product', 
     required: true 
   },
+  variant: { type: Schema.Types.ObjectId },
   productName: { type: String, required: true },
   productImage: { type: String, required: true },
   color: { type: String, required: true },
@@ -78,6 +82,7 @@ const orderItemSchema = new Schema<IOrderItem>({
   quantity: { type: Number, required: true, min: 1 },
   price: { type: Number, required: true, min: 0 },
   sku: { type: String, required: true },
+  stockDeducted: { type: Boolean },
 });
 
 const addressSchema = new Schema<IShippingAddress>({
@@ -210,6 +215,12 @@ const orderSchema = new Schema<IOrder>(
     carrier: { type: String },
     deliveredAt: { type: Date },
     notes: { type: String },
+    // Paid for, but some items couldn't be taken out of stock - needs staff attention
+    stockShortfall: {
+      type: Boolean,
+      default: false,
+      index: true
+    },
   },
   { 
     timestamps: true,
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IOtpCode extends Document {
+  phone: string;
+  codeHash: string;
+  attempts: number;
+  lastSentAt: Date;
+  requestIp?: string;
+  codeExpiresAt: Date;
+  sendCount: number;
+  sendWindowStart: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const otpCodeSchema = new Schema<IOtpCode>(
+  {
+    // One active code per phone number (+91XXXXXXXXXX)
+    phone: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    codeHash: {
+      type: String,
+      required: true
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    lastSentAt: {
+      type: Date,
+      required: true
+    },
+    // Who asked for the code, to cap how many numbers one client can text
+    requestIp: { type: String },
+    // When the current code stops working. Also when a number locked by too
+    // many wrong attempts can be sent a new one.
+    codeExpiresAt: {
+      type: Date,
+      required: true
+    },
+    // Codes texted to this number since sendWindowStart, for the per-number cap
+    sendCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    sendWindowStart: {
+      type: Date,
+      required: true
+    },
+    // When the record is purged - kept past the code for the cooldown and send cap
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'otp_codes'
+  }
+);
+
+otpCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+otpCodeSchema.index({ requestIp: 1, lastSentAt: -1 });
+otpCodeSchema.index({ lastSentAt: -1 });
+
+export const OtpCode = mongoose.model<IOtpCode>('OtpCode', otpCodeSchema);
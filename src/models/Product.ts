@@ -9,31 +9,43 @@ export interface ISize {
   };
 }
 
-export interface IInventory {
+export interface IVariant {
+  _id?: mongoose.Types.ObjectId;
+  sku: string;
   color: string;
   size: string;
+  price?: number;
+  images: string[];
+  weight?: number;
+  barcode?: string;
   stock: number;
-  sku: string;
+  isActive: boolean;
 }
 
 export interface IProduct extends Document {
   name: string;
   slug: string;
   description: string;
-  category: string;
+  category: mongoose.Types.ObjectId;
   price: number;
   compareAtPrice?: number;
   images: string[];
   colors: string[];
   sizes: ISize[];
-  inventory: IInventory[];
+  variants: IVariant[];
   isActive: boolean;
   isFeatured: boolean;
   tags: string[];
+  ratingAverage: number;
+  ratingCount: number;
   createdAt: Date;
   updatedAt: Date;
-  checkStock(color: string, size: string, quantity: number): boolean;
-  updateStock(color: string, size: string, quantity: number): Promise<void>;
+  findVariant(variantId: unknown): IVariant | undefined;
+  resolveVariant(options: { variantId?: unknown; color?: string; size?: string }): IVariant | undefined;
+  priceFor(variant: IVariant): number;
+  checkStock(variantId: unknown, quantity: number): boolean;
+  updateStock(variantId: unknown, quantity: number): Promise<boolean>;
+  restoreStock(variantId: unknown, quantity: number): Promise<void>;
 }
 
 const sizeSchema = new Schema<ISize>({
@@ -45,11 +57,17 @@ const sizeSchema = new Schema<ISize>({
   },
 });
 
-const inventorySchema = new Schema<IInventory>({
-  color: { type: String, required: true },
-  size: { type: String, required: true },
-  stock: { type: Number, required: true, min: 0 },
-  sku: { type: String, required: true, unique: true },
+// One purchasable color x size combination
+const variantSchema = new Schema<IVariant>({
+  sku: { type: String, required: true, uppercase: true, trim: true },
+  color: { type: String, required: true, trim: true },
+  size: { type: String, required: true, trim: true },
+  price: { type: Number, min: 0 }, // Overrides the product price when set
+  images: [{ type: String }], // Falls back to the product images when empty
+  weight: { type: Number, min: 0 }, // Grams
+  barcode: { type: String, trim: true },
+  stock: { type: Number, required: true, min: 0, default: 0 },
+  isActive: { type: Boolean, default: true },
 });
 
 const productSchema = new Schema<IProduct>(
@@ -72,7 +90,8 @@ const productSchema = new Schema<IProduct>(
       required: true
     },
     category: {
-      type: String,
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
       required: true,
       index: true
     },
@@ -93,8 +112,9 @@ const productSchema = new Schema<IProduct>(
       type: String,
       required: true
     }],
+    // colors and sizes are kept in sync with the variants (sizes also hold the size chart)
     sizes: [sizeSchema],
-    inventory: [inventorySchema],
+    variants: [variantSchema],
     isActive: {
       type: Boolean,
       default: true,
@@ -110,6 +130,18 @@ const productSchema = new Schema<IProduct>(
       lowercase: true,
       trim: true
     }],
+    // Aggregated from approved reviews
+    ratingAverage: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 5
+    },
+    ratingCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
   },
   {
     timestamps: true,
@@ -127,6 +159,13 @@ productSchema.index({
 // Compound indexes for common queries
 productSchema.index({ category: 1, isActive: 1, isFeatured: 1 });
 productSchema.index({ price: 1, isActive: 1 });
+productSchema.index({ ratingAverage: -1, ratingCount: -1, isActive: 1 });
+
+// SKUs are unique across products (products without variants are left out of the index)
+productSchema.index(
+  { 'variants.sku': 1 },
+  { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } }
+);
 
 // Virtual for discount percentage
 productSchema.virtual('discountPercentage').get(function () {
@@ -136,19 +175,80 @@ productSchema.virtual('discountPercentage').get(function () {
   return 0;
 });
 
-// Method to check stock availability
-productSchema.methods.checkStock = function (color: string, size: string, quantity: number): boolean {
-  const item = this.inventory.find((inv: IInventory) => inv.color === color && inv.size === size);
-  return item ? item.stock >= quantity : false;
+// Variants are the source of truth: derive colors and sizes from them
+productSchema.pre('validate', function (next) {
+  const seen = new Set<string>();
+  const skus = new Set<string>();
+  for (const variant of this.variants) {
+    const key = `${variant.color}\u0000${variant.size}`;
+    if (seen.has(key)) {
+      return next(new Error(`Duplicate variant ${variant.color} / ${variant.size}`));
+    }
+    if (skus.has(variant.sku)) {
+      return next(new Error(`Duplicate SKU ${variant.sku}`));
+    }
+    seen.add(key);
+    skus.add(variant.sku);
+  }
+
+  this.colors = [...new Set(this.variants.map(variant => variant.color))];
+
+  const variantSizes = [...new Set(this.variants.map(variant => variant.size))];
+  const sizes = this.sizes.filter(size => variantSizes.includes(size.name));
+  variantSizes
+    .filter(name => !sizes.some(size => size.name === name))
+    .forEach(name => sizes.push({ name }));
+  this.sizes = sizes;
+
+  next();
+});
+
+// Method to find a variant by its ID
+productSchema.methods.findVariant = function (variantId: unknown): IVariant | undefined {
+  if (!variantId) return undefined;
+  return this.variants.find((variant: IVariant) => String(variant._id) === String(variantId));
 };
 
-// Method to update stock
-productSchema.methods.updateStock = async function (color: string, size: string, quantity: number) {
-  const item = this.inventory.find((inv: IInventory) => inv.color === color && inv.size === size);
-  if (item) {
-    item.stock -= quantity;
-    await this.save();
+// Method to find a variant by ID, or by color and size (older clients and orders)
+productSchema.methods.resolveVariant = function (
+  options: { variantId?: unknown; color?: string; size?: string }
+): IVariant | undefined {
+  if (options.variantId) {
+    return this.findVariant(options.variantId);
   }
+  return this.variants.find(
+    (variant: IVariant) => variant.color === options.color && variant.size === options.size
+  );
+};
+
+// Method to get the selling price of a variant
+productSchema.methods.priceFor = function (variant: IVariant): number {
+  return variant.price ?? this.price;
+};
+
+// Method to check stock availability
+productSchema.methods.checkStock = function (variantId: unknown, quantity: number): boolean {
+  const variant = this.findVariant(variantId);
+  return variant ? variant.isActive && variant.stock >= quantity : false;
+};
+
+// Method to update stock. Atomic, and only decrements when enough is left,
+// so concurrent orders can't take the stock below zero.
+// Returns false when the variant is gone or doesn't have enough stock.
+productSchema.methods.updateStock = async function (variantId: unknown, quantity: number): Promise<boolean> {
+  const result = await Product.updateOne(
+    { _id: this._id, variants: { $elemMatch: { _id: variantId, stock: { $gte: quantity } } } },
+    { $inc: { 'variants.$.stock': -quantity } }
+  );
+  return result.matchedCount > 0;
+};
+
+// Method to put stock back (e.g. a cancelled order)
+productSchema.methods.restoreStock = async function (variantId: unknown, quantity: number) {
+  await Product.updateOne(
+    { _id: this._id, 'variants._id': variantId },
+    { $inc: { 'variants.$.stock': quantity } }
+  );
 };
 
 export const Product = mongoose.model<IProduct>('Product', productSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    // All tokens rotated from the same login share a family, so a reused
+    // (already rotated) token can revoke every descendant at once
+    family: {
+      type: String,
+      required: true,
+      index: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: { type: Date },
+    replacedBy: { type: String },
+  },
+  {
+    timestamps: true,
+    collection: 'refresh_tokens'
+  }
+);
+
+// Let MongoDB purge expired tokens
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface IReview extends Document {
+  product: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  order: mongoose.Types.ObjectId;
+  rating: number;
+  title: string;
+  body: string;
+  photos: string[];
+  isVerifiedPurchase: boolean;
+  status: ReviewStatus;
+  moderatedBy?: mongoose.Types.ObjectId;
+  moderatedAt?: Date;
+  moderationNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reviewSchema = new Schema<IReview>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    // The delivered order that makes this a verified purchase
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120
+    },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 5000
+    },
+    photos: [{ type: String }],
+    isVerifiedPurchase: {
+      type: Boolean,
+      default: false
+    },
+    // Only approved reviews are shown and counted in the product rating
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending',
+      index: true
+    },
+    moderatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    moderatedAt: { type: Date },
+    moderationNote: { type: String },
+  },
+  {
+    timestamps: true,
+    collection: 'reviews'
+  }
+);
+
+// One review per customer per product
+reviewSchema.index({ product: 1, user: 1 }, { unique: true });
+reviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ status: 1, createdAt: 1 });
+
+export const Review = mongoose.model<IReview>('Review', reviewSchema);
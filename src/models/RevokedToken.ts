@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRevokedToken extends Document {
+  jti: string;
+  user?: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const revokedTokenSchema = new Schema<IRevokedToken>(
+  {
+    jti: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    // Same as the token's own expiry - no need to remember it after that
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'revoked_tokens'
+  }
+);
+
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
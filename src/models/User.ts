@@ -1,6 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { ROLES, Role } from '../config/permissions.js';
 
 export interface IAddress {
+  _id?: mongoose.Types.ObjectId;
   type: 'shipping' | 'billing';
   fullName: string;
   phone: string;
@@ -12,16 +14,41 @@ export interface IAddress {
   isDefault: boolean;
 }
 
+export interface IOidcIdentity {
+  provider: string;
+  subject: string;
+  linkedAt: Date;
+}
+
 export interface IUser extends Document {
   cognitoId?: string;
+  migratedAt?: Date;
+  oidcIdentities: IOidcIdentity[];
   email: string;
   password?: string;
   salt?: string;
   name: string;
   phone?: string;
+  isPhoneVerified: boolean;
   addresses: IAddress[];
-  role: 'customer' | 'admin';
+  role: Role;
   isEmailVerified: boolean;
+  isDisabled: boolean;
+  disabledAt?: Date;
+  disabledReason?: string;
+  deletedAt?: Date;
+  pendingEmail?: string;
+  tokenVersion: number;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorLastUsedStep?: number;
+  twoFactorRecoveryCodes?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -42,6 +69,12 @@ const addressSchema = new Schema<IAddress>({
   isDefault: { type: Boolean, default: false },
 });
 
+const oidcIdentitySchema = new Schema<IOidcIdentity>({
+  provider: { type: String, required: true },
+  subject: { type: String, required: true },
+  linkedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
 const userSchema = new Schema<IUser>(
   {
     cognitoId: {
@@ -50,6 +83,12 @@ const userSchema = new Schema<IUser>(
       sparse: true, // Allows null/undefined to be unique
       index: true
     },
+    // When a Cognito user got a local password (first login or password reset)
+    migratedAt: {
+      type: Date
+    },
+    // Accounts at external OpenID Connect providers (e.g. Google) linked to this user
+    oidcIdentities: [oidcIdentitySchema],
     email: {
       type: String,
       required: true,
@@ -73,18 +112,89 @@ const userSchema = new Schema<IUser>(
     },
     phone: {
       type: String,
-      trim: true
+      trim: true,
+      index: true
+    },
+    isPhoneVerified: {
+      type: Boolean,
+      default: false
     },
     addresses: [addressSchema],
     role: {
       type: String,
-      enum: ['customer', 'admin'],
+      enum: ROLES,
       default: 'customer'
     },
     isEmailVerified: {
       type: Boolean,
       default: false
     },
+    isDisabled: {
+      type: Boolean,
+      default: false,
+      index: true
+    },
+    disabledAt: { type: Date },
+    disabledReason: { type: String, trim: true },
+    // Set when the customer deleted their account - personal data has been anonymised
+    deletedAt: { type: Date },
+    // New email awaiting confirmation through the verification link
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true
+    },
+    // Bumped to invalidate every access token issued before it
+    tokenVersion: {
+      type: Number,
+      default: 0,
+      select: false
+    },
+    emailVerificationToken: {
+      type: String,
+      select: false,
+      index: true,
+      sparse: true
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false
+    },
+    passwordResetToken: {
+      type: String,
+      select: false,
+      index: true,
+      sparse: true
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false
+    },
+    twoFactorEnabledAt: { type: Date },
+    // Base32 TOTP secrets: the active one and one awaiting its first code during enrolment
+    twoFactorSecret: {
+      type: String,
+      select: false
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false
+    },
+    // Last accepted TOTP time step, so a code can't be replayed
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false
+    },
+    // Hashes of the unused single-use recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined
+    },
   },
   {
     timestamps: true,
@@ -94,5 +204,6 @@ const userSchema = new Schema<IUser>(
 
 // Index for searching
 userSchema.index({ email: 1, name: 1 });
+userSchema.index({ 'oidcIdentities.provider': 1, 'oidcIdentities.subject': 1 });
 
 export const User = mongoose.model<IUser>('User', userSchema);
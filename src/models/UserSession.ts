@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IUserSession extends Document {
+  user: mongoose.Types.ObjectId;
+  userAgent?: string;
+  ip?: string;
+  expressSessionId?: string;
+  lastSeenAt: Date;
+  revokedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One document per login (device). Its id is the refresh token family and the
+// `sid` claim of every access token issued for it.
+const userSessionSchema = new Schema<IUserSession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    userAgent: { type: String },
+    ip: { type: String },
+    expressSessionId: { type: String },
+    lastSeenAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: { type: Date },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'user_sessions'
+  }
+);
+
+// Let MongoDB purge sessions once their refresh tokens have expired
+userSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const UserSession = mongoose.model<IUserSession>('UserSession', userSessionSchema);
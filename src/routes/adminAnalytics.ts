@@ -1,13 +1,13 @@
 import express from 'express';
 import { Product } from '../models/Product.js';
 import { Order } from '../models/Order.js';
-import { requireAuth, requireAdmin, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = express.Router();
 
-// Apply auth and admin middleware to all routes
-router.use(requireAuth as any);
-router.use(requireAdmin as any);
+// Apply auth and analytics permission to all routes
+router.use(requireAuthOrApiKey as any);
+router.use(requirePermission('analytics:read') as any);
 
 /**
  * GET /api/admin/analytics/dashboard
@@ -31,7 +31,7 @@ router.get('/dashboard', async (req: AuthenticatedRequest, res) => {
       Product.countDocuments({ isActive: true }),
       Product.countDocuments({ isFeatured: true }),
       Product.countDocuments({
-        'inventory.stock': { $lte: 5 },
+        variants: { $elemMatch: { stock: { $lte: 5 }, isActive: true } },
         isActive: true,
       }),
     ]);
@@ -297,11 +297,12 @@ router.get('/low-stock', async (req: AuthenticatedRequest, res) => {
         },
       },
       {
-        $unwind: '$inventory',
+        $unwind: '$variants',
       },
       {
         $match: {
-          'inventory.stock': { $lte: parseInt(threshold as string) },
+          'variants.stock': { $lte: parseInt(threshold as string) },
+          'variants.isActive': true,
         },
       },
       {
@@ -310,13 +311,14 @@ router.get('/low-stock', async (req: AuthenticatedRequest, res) => {
           name: { $first: '$name' },
           slug: { $first: '$slug' },
           image: { $first: { $arrayElemAt: ['$images', 0] } },
-          totalStock: { $sum: '$inventory.stock' },
+          totalStock: { $sum: '$variants.stock' },
           lowStockVariants: {
             $push: {
-              color: '$inventory.color',
-              size: '$inventory.size',
-              stock: '$inventory.stock',
-              sku: '$inventory.sku',
+              variantId: '$variants._id',
+              color: '$variants.color',
+              size: '$variants.size',
+              stock: '$variants.stock',
+              sku: '$variants.sku',
             },
           },
         },
@@ -361,6 +363,26 @@ router.get('/categories', async (req: AuthenticatedRequest, res) => {
           avgPrice: { $avg: '$price' },
         },
       },
+      {
+        $lookup: {
+          from: 'categories',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'category',
+        },
+      },
+      {
+        $unwind: { path: '$category', preserveNullAndEmptyArrays: true },
+      },
+      {
+        $project: {
+          productCount: 1,
+          avgPrice: 1,
+          name: '$category.name',
+          slug: '$category.slug',
+          parent: '$category.parent',
+        },
+      },
       {
         $sort: { productCount: -1 },
       },
@@ -0,0 +1,170 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { ApiKey } from '../models/ApiKey.js';
+import { createApiKey, revokeApiKey } from '../services/apiKeyService.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { API_KEY_PERMISSIONS } from '../config/permissions.js';
+import { recordAudit } from '../services/auditService.js';
+
+const router = express.Router();
+
+// Keys are managed by logged in staff only - a key can't be used to manage keys
+router.use(requireAuth as any);
+router.use(requirePermission('api-keys:manage') as any);
+
+/**
+ * GET /api/admin/api-keys
+ * List API keys (never includes the key itself)
+ * Filters: status (active|revoked)
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { status } = req.query;
+
+    const query: any = {};
+
+    if (status === 'active') {
+      query.revokedAt = { $exists: false };
+    } else if (status === 'revoked') {
+      query.revokedAt = { $exists: true };
+    }
+
+    const apiKeys = await ApiKey.find(query)
+      .sort({ createdAt: -1 })
+      .populate('createdBy', 'name email')
+      .populate('revokedBy', 'name email');
+
+    res.json({
+      success: true,
+      data: {
+        apiKeys,
+        availablePermissions: API_KEY_PERMISSIONS,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching API keys:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch API keys',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/api-keys
+ * Create a scoped API key. The key is only returned in this response.
+ * Body: { name, permissions: string[], expiresAt? }
+ */
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, permissions, expiresAt } = req.body;
+
+    if (!name || !Array.isArray(permissions)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name and a permissions array are required',
+      });
+    }
+
+    let expiry: Date | undefined;
+    if (expiresAt) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return res.status(400).json({
+          success: false,
+          error: 'expiresAt must be a future date',
+        });
+      }
+    }
+
+    let created;
+    try {
+      created = await createApiKey({
+        name: String(name),
+        permissions,
+        createdBy: req.user!.userId,
+        expiresAt: expiry,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    await recordAudit(req, {
+      action: 'api-key.create',
+      targetType: 'api-key',
+      targetId: created.apiKey._id,
+      after: {
+        name: created.apiKey.name,
+        prefix: created.apiKey.prefix,
+        permissions: created.apiKey.permissions,
+        expiresAt: created.apiKey.expiresAt,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        apiKey: created.apiKey,
+        key: created.key,
+      },
+      message: 'API key created. Copy it now, it will not be shown again.',
+    });
+  } catch (error: any) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/api-keys/:id
+ * Revoke an API key
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+    }
+
+    let apiKey;
+    try {
+      apiKey = await revokeApiKey(req.params.id, req.user!.userId);
+    } catch (error: any) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    await recordAudit(req, {
+      action: 'api-key.revoke',
+      targetType: 'api-key',
+      targetId: apiKey._id,
+      before: { revokedAt: null },
+      after: { revokedAt: apiKey.revokedAt },
+      metadata: { name: apiKey.name, prefix: apiKey.prefix },
+    });
+
+    res.json({
+      success: true,
+      data: { apiKey },
+      message: 'API key revoked',
+    });
+  } catch (error: any) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key',
+    });
+  }
+});
+
+export default router;
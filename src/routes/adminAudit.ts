@@ -0,0 +1,133 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { AuditLog } from '../models/AuditLog.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Apply auth and audit permission to all routes
+router.use(requireAuthOrApiKey as any);
+router.use(requirePermission('audit:read') as any);
+
+/**
+ * GET /api/admin/audit
+ * Query the audit log
+ * Filters: actor (user ID), impersonatedUser (user ID), action, targetType, targetId, from, to (ISO dates)
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 50,
+      actor,
+      impersonatedUser,
+      action,
+      targetType,
+      targetId,
+      from,
+      to,
+    } = req.query;
+
+    const query: any = {};
+
+    if (actor) {
+      if (!mongoose.isValidObjectId(actor)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid actor ID',
+        });
+      }
+      query.actor = actor;
+    }
+
+    if (impersonatedUser) {
+      if (!mongoose.isValidObjectId(impersonatedUser)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid impersonated user ID',
+        });
+      }
+      query.impersonatedUser = impersonatedUser;
+    }
+
+    if (action) {
+      query.action = action;
+    }
+
+    if (targetType) {
+      query.targetType = targetType;
+    }
+
+    if (targetId) {
+      query.targetId = targetId;
+    }
+
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = new Date(from as string);
+      if (to) query.createdAt.$lte = new Date(to as string);
+    }
+
+    const pageNum = parseInt(page as string);
+    const limitNum = Math.min(parseInt(limit as string), 200);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [entries, total] = await Promise.all([
+      AuditLog.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .populate('actor', 'name email'),
+      AuditLog.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: { entries },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit log',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/audit/:id
+ * Get a single audit log entry
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const entry = mongoose.isValidObjectId(req.params.id)
+      ? await AuditLog.findById(req.params.id).populate('actor', 'name email')
+      : null;
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Audit log entry not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { entry },
+    });
+  } catch (error: any) {
+    console.error('Error fetching audit log entry:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit log entry',
+    });
+  }
+});
+
+export default router;
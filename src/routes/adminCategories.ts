@@ -0,0 +1,339 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Category } from '../models/Category.js';
+import { Product } from '../models/Product.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { recordAudit, snapshot } from '../services/auditService.js';
+import { buildCategoryTree, slugifyCategory, wouldCreateCycle } from '../services/categoryService.js';
+
+const router = express.Router();
+
+// Apply auth middleware to all routes, each route checks its own permission
+router.use(requireAuthOrApiKey as any);
+
+/**
+ * Check a parent ID from a request body
+ * @returns An error message, or null when the parent is valid (or cleared)
+ */
+async function validateParent(parent: unknown, categoryId?: string): Promise<string | null> {
+  if (parent === null || parent === undefined || parent === '') {
+    return null;
+  }
+
+  if (!mongoose.isValidObjectId(parent) || !await Category.exists({ _id: parent })) {
+    return 'Parent category not found';
+  }
+
+  if (categoryId && await wouldCreateCycle(categoryId, String(parent))) {
+    return 'A category cannot be moved under itself or one of its subcategories';
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/admin/categories
+ * Get all categories (including inactive) with their product counts
+ * Query: tree=true to nest them
+ */
+router.get('/', requirePermission('products:read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const [categories, counts] = await Promise.all([
+      Category.find().sort({ sortOrder: 1, name: 1 }),
+      Product.aggregate([{ $group: { _id: '$category', productCount: { $sum: 1 } } }]),
+    ]);
+
+    const productCounts = new Map(counts.map(count => [String(count._id), count.productCount]));
+
+    res.json({
+      success: true,
+      data: {
+        categories: req.query.tree === 'true'
+          ? buildCategoryTree(categories)
+          : categories.map(category => ({
+              ...category.toObject(),
+              productCount: productCounts.get(String(category._id)) || 0,
+            })),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch categories',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/categories/:id
+ * Get single category by ID
+ */
+router.get('/:id', requirePermission('products:read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const category = mongoose.isValidObjectId(req.params.id)
+      ? await Category.findById(req.params.id).populate('parent', 'name slug')
+      : null;
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { category },
+    });
+  } catch (error: any) {
+    console.error('Error fetching category:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch category',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/categories
+ * Create new category
+ */
+router.post('/', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const {
+      name,
+      slug,
+      parent,
+      description,
+      image,
+      sortOrder,
+      isActive,
+      metaTitle,
+      metaDescription,
+      metaKeywords,
+    } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    const categorySlug = slugifyCategory(slug || name);
+
+    if (!categorySlug) {
+      return res.status(400).json({
+        success: false,
+        error: 'Slug must contain letters or numbers',
+      });
+    }
+
+    if (await Category.exists({ slug: categorySlug })) {
+      return res.status(400).json({
+        success: false,
+        error: 'Category with this slug already exists',
+      });
+    }
+
+    const parentError = await validateParent(parent);
+    if (parentError) {
+      return res.status(400).json({
+        success: false,
+        error: parentError,
+      });
+    }
+
+    const category = new Category({
+      name,
+      slug: categorySlug,
+      parent: parent || null,
+      description,
+      image,
+      sortOrder: sortOrder || 0,
+      isActive: isActive !== false,
+      metaTitle,
+      metaDescription,
+      metaKeywords: metaKeywords || [],
+    });
+
+    await category.save();
+
+    await recordAudit(req, {
+      action: 'category.create',
+      targetType: 'category',
+      targetId: category._id,
+      after: snapshot(category),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { category },
+      message: 'Category created successfully',
+    });
+  } catch (error: any) {
+    console.error('Error creating category:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create category',
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/categories/:id
+ * Update existing category
+ */
+router.put('/:id', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const {
+      name,
+      slug,
+      parent,
+      description,
+      image,
+      sortOrder,
+      isActive,
+      metaTitle,
+      metaDescription,
+      metaKeywords,
+    } = req.body;
+
+    const category = mongoose.isValidObjectId(req.params.id)
+      ? await Category.findById(req.params.id)
+      : null;
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found',
+      });
+    }
+
+    const before = snapshot(category);
+
+    // Slugs only change when asked - they are part of storefront URLs
+    if (slug !== undefined) {
+      const newSlug = slugifyCategory(slug);
+
+      if (!newSlug) {
+        return res.status(400).json({
+          success: false,
+          error: 'Slug must contain letters or numbers',
+        });
+      }
+
+      const existingCategory = await Category.exists({
+        slug: newSlug,
+        _id: { $ne: category._id },
+      });
+
+      if (existingCategory) {
+        return res.status(400).json({
+          success: false,
+          error: 'Category with this slug already exists',
+        });
+      }
+
+      category.slug = newSlug;
+    }
+
+    if (parent !== undefined) {
+      const parentError = await validateParent(parent, req.params.id);
+      if (parentError) {
+        return res.status(400).json({
+          success: false,
+          error: parentError,
+        });
+      }
+
+      category.parent = parent || null;
+    }
+
+    // Update fields
+    if (name !== undefined) category.name = name;
+    if (description !== undefined) category.description = description;
+    if (image !== undefined) category.image = image;
+    if (sortOrder !== undefined) category.sortOrder = sortOrder;
+    if (isActive !== undefined) category.isActive = isActive;
+    if (metaTitle !== undefined) category.metaTitle = metaTitle;
+    if (metaDescription !== undefined) category.metaDescription = metaDescription;
+    if (metaKeywords !== undefined) category.metaKeywords = metaKeywords;
+
+    await category.save();
+
+    await recordAudit(req, {
+      action: 'category.update',
+      targetType: 'category',
+      targetId: category._id,
+      before,
+      after: snapshot(category),
+    });
+
+    res.json({
+      success: true,
+      data: { category },
+      message: 'Category updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating category:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update category',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/categories/:id
+ * Delete a category that has no subcategories or products
+ */
+router.delete('/:id', requirePermission('products:delete'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const category = mongoose.isValidObjectId(req.params.id)
+      ? await Category.findById(req.params.id)
+      : null;
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found',
+      });
+    }
+
+    const [children, products] = await Promise.all([
+      Category.countDocuments({ parent: category._id }),
+      Product.countDocuments({ category: category._id }),
+    ]);
+
+    if (children > 0 || products > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Category still has ${children} subcategories and ${products} products. Move them first or deactivate the category instead.`,
+      });
+    }
+
+    await category.deleteOne();
+
+    await recordAudit(req, {
+      action: 'category.delete',
+      targetType: 'category',
+      targetId: category._id,
+      before: snapshot(category),
+    });
+
+    res.json({
+      success: true,
+      message: 'Category deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting category:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete category',
+    });
+  }
+});
+
+export default router;
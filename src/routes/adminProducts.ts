@@ -1,18 +1,77 @@
 import express from 'express';
-import { Product } from '../models/Product.js';
-import { requireAuth, requireAdmin, AuthenticatedRequest } from '../middleware/auth.js';
+import mongoose from 'mongoose';
+import { Product, IVariant } from '../models/Product.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { recordAudit, snapshot } from '../services/auditService.js';
+import { findCategory, getCategoryWithDescendantIds } from '../services/categoryService.js';
 
 const router = express.Router();
 
-// Apply auth and admin middleware to all routes
-router.use(requireAuth as any);
-router.use(requireAdmin as any);
+// Apply auth middleware to all routes, each route checks its own permission
+router.use(requireAuthOrApiKey as any);
+
+function generateSku(slug: string, color: string, size: string): string {
+  return `${slug}-${color}-${size}`.toUpperCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Build variants from a request body. Existing variants (matched by _id, or
+ * by color and size) keep their ID so carts and orders still point at them.
+ * @throws If a variant is missing its color or size, or is listed twice
+ */
+function buildVariants(slug: string, input: any[], existing: IVariant[] = []): IVariant[] {
+  const seen = new Set<string>();
+
+  return input.map(variant => {
+    if (!variant?.color || !variant?.size) {
+      throw new Error('Each variant needs a color and a size');
+    }
+
+    const key = `${variant.color}\u0000${variant.size}`;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate variant ${variant.color} / ${variant.size}`);
+    }
+    seen.add(key);
+
+    const current = existing.find(item =>
+      variant._id
+        ? String(item._id) === String(variant._id)
+        : item.color === variant.color && item.size === variant.size
+    );
+
+    return {
+      ...(current?._id && { _id: current._id }),
+      sku: variant.sku || current?.sku || generateSku(slug, variant.color, variant.size),
+      color: variant.color,
+      size: variant.size,
+      price: variant.price ?? current?.price,
+      images: variant.images ?? current?.images ?? [],
+      weight: variant.weight ?? current?.weight,
+      barcode: variant.barcode ?? current?.barcode,
+      stock: variant.stock ?? current?.stock ?? 0,
+      isActive: variant.isActive ?? current?.isActive ?? true,
+    };
+  });
+}
+
+/**
+ * Find a SKU already used by another product
+ */
+async function findSkuConflict(variants: IVariant[], productId?: unknown): Promise<string | null> {
+  const skus = variants.map(variant => variant.sku.toUpperCase());
+  const conflict = await Product.findOne({
+    'variants.sku': { $in: skus },
+    ...(productId ? { _id: { $ne: productId } } : {}),
+  }).select('variants.sku');
+
+  return conflict?.variants.find(variant => skus.includes(variant.sku))?.sku || null;
+}
 
 /**
  * GET /api/admin/products
  * Get all products with pagination and filters (admin view)
  */
-router.get('/', async (req: AuthenticatedRequest, res) => {
+router.get('/', requirePermission('products:read'), async (req: AuthenticatedRequest, res) => {
   try {
     const {
       page = 1,
@@ -35,9 +94,12 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
       ];
     }
 
-    // Category filter
+    // Category filter (ID or slug, including subcategories)
     if (category) {
-      query.category = category;
+      const categoryDoc = await findCategory(category as string);
+      query.category = categoryDoc
+        ? { $in: await getCategoryWithDescendantIds(categoryDoc._id) }
+        : { $in: [] };
     }
 
     // Active filter
@@ -58,7 +120,8 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
       Product.find(query)
         .sort(sort as string)
         .skip(skip)
-        .limit(limitNum),
+        .limit(limitNum)
+        .populate('category', 'name slug'),
       Product.countDocuments(query),
     ]);
 
@@ -85,9 +148,9 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
  * GET /api/admin/products/:id
  * Get single product by ID (admin view)
  */
-router.get('/:id', async (req: AuthenticatedRequest, res) => {
+router.get('/:id', requirePermission('products:read'), async (req: AuthenticatedRequest, res) => {
   try {
-    const product = await Product.findById(req.params.id);
+    const product = await Product.findById(req.params.id).populate('category', 'name slug');
 
     if (!product) {
       return res.status(404).json({
@@ -113,7 +176,7 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
  * POST /api/admin/products
  * Create new product
  */
-router.post('/', async (req: AuthenticatedRequest, res) => {
+router.post('/', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
   try {
     const {
       name,
@@ -122,22 +185,29 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       price,
       compareAtPrice,
       images,
-      colors,
       sizes,
-      inventory,
+      variants,
       isActive,
       isFeatured,
       tags,
     } = req.body;
 
     // Validate required fields
-    if (!name || !description || !category || !price || !images || !colors || !sizes) {
+    if (!name || !description || !category || !price || !images || !Array.isArray(variants) || variants.length === 0) {
       return res.status(400).json({
         success: false,
         error: 'Missing required fields',
       });
     }
 
+    const categoryDoc = await findCategory(String(category));
+    if (!categoryDoc) {
+      return res.status(400).json({
+        success: false,
+        error: 'Category not found',
+      });
+    }
+
     // Generate slug from name
     const slug = name
       .toLowerCase()
@@ -159,17 +229,34 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       discountPercentage = Math.round(((compareAtPrice - price) / compareAtPrice) * 100);
     }
 
+    let productVariants: IVariant[];
+    try {
+      productVariants = buildVariants(slug, variants);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    const skuConflict = await findSkuConflict(productVariants);
+    if (skuConflict) {
+      return res.status(400).json({
+        success: false,
+        error: `SKU ${skuConflict} is already in use`,
+      });
+    }
+
     const product = new Product({
       name,
       slug,
       description,
-      category,
+      category: categoryDoc._id,
       price,
       compareAtPrice,
       images,
-      colors,
-      sizes,
-      inventory: inventory || [],
+      sizes: sizes || [],
+      variants: productVariants,
       isActive: isActive !== false,
       isFeatured: isFeatured || false,
       tags: tags || [],
@@ -177,6 +264,13 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
 
     await product.save();
 
+    await recordAudit(req, {
+      action: 'product.create',
+      targetType: 'product',
+      targetId: product._id,
+      after: snapshot(product),
+    });
+
     res.status(201).json({
       success: true,
       data: { product },
@@ -195,7 +289,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
  * PUT /api/admin/products/:id
  * Update existing product
  */
-router.put('/:id', async (req: AuthenticatedRequest, res) => {
+router.put('/:id', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
   try {
     const {
       name,
@@ -204,9 +298,8 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       price,
       compareAtPrice,
       images,
-      colors,
       sizes,
-      inventory,
+      variants,
       isActive,
       isFeatured,
       tags,
@@ -221,6 +314,8 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    const before = snapshot(product);
+
     // Update slug if name changed
     if (name && name !== product.name) {
       const newSlug = name
@@ -253,22 +348,62 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       discountPercentage = Math.round(((newCompareAtPrice - newPrice) / newCompareAtPrice) * 100);
     }
 
+    if (variants !== undefined) {
+      let productVariants: IVariant[];
+      try {
+        if (!Array.isArray(variants)) {
+          throw new Error('Variants must be an array');
+        }
+        productVariants = buildVariants(product.slug, variants, product.variants);
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      const skuConflict = await findSkuConflict(productVariants, product._id);
+      if (skuConflict) {
+        return res.status(400).json({
+          success: false,
+          error: `SKU ${skuConflict} is already in use`,
+        });
+      }
+
+      product.variants = productVariants;
+    }
+
     // Update fields
     if (name !== undefined) product.name = name;
     if (description !== undefined) product.description = description;
-    if (category !== undefined) product.category = category;
+    if (category !== undefined) {
+      const categoryDoc = await findCategory(String(category));
+      if (!categoryDoc) {
+        return res.status(400).json({
+          success: false,
+          error: 'Category not found',
+        });
+      }
+      product.category = categoryDoc._id as mongoose.Types.ObjectId;
+    }
     if (price !== undefined) product.price = price;
     if (compareAtPrice !== undefined) product.compareAtPrice = compareAtPrice;
     if (images !== undefined) product.images = images;
-    if (colors !== undefined) product.colors = colors;
     if (sizes !== undefined) product.sizes = sizes;
-    if (inventory !== undefined) product.inventory = inventory;
     if (isActive !== undefined) product.isActive = isActive;
     if (isFeatured !== undefined) product.isFeatured = isFeatured;
     if (tags !== undefined) product.tags = tags;
 
     await product.save();
 
+    await recordAudit(req, {
+      action: 'product.update',
+      targetType: 'product',
+      targetId: product._id,
+      before,
+      after: snapshot(product),
+    });
+
     res.json({
       success: true,
       data: { product },
@@ -287,7 +422,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
  * DELETE /api/admin/products/:id
  * Delete product (soft delete by setting isActive to false)
  */
-router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+router.delete('/:id', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
   try {
     const product = await Product.findById(req.params.id);
 
@@ -299,9 +434,18 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
     }
 
     // Soft delete by setting isActive to false
+    const before = snapshot(product);
     product.isActive = false;
     await product.save();
 
+    await recordAudit(req, {
+      action: 'product.delete',
+      targetType: 'product',
+      targetId: product._id,
+      before,
+      after: snapshot(product),
+    });
+
     res.json({
       success: true,
       data: { product },
@@ -320,7 +464,7 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
  * DELETE /api/admin/products/:id/permanent
  * Permanently delete product
  */
-router.delete('/:id/permanent', async (req: AuthenticatedRequest, res) => {
+router.delete('/:id/permanent', requirePermission('products:delete'), async (req: AuthenticatedRequest, res) => {
   try {
     const product = await Product.findByIdAndDelete(req.params.id);
 
@@ -331,6 +475,13 @@ router.delete('/:id/permanent', async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    await recordAudit(req, {
+      action: 'product.delete-permanent',
+      targetType: 'product',
+      targetId: product._id,
+      before: snapshot(product),
+    });
+
     res.json({
       success: true,
       message: 'Product permanently deleted',
@@ -346,16 +497,17 @@ router.delete('/:id/permanent', async (req: AuthenticatedRequest, res) => {
 
 /**
  * PATCH /api/admin/products/:id/inventory
- * Update product inventory
+ * Update stock for one variant (by variantId, or color and size).
+ * A color and size without a variant creates it.
  */
-router.patch('/:id/inventory', async (req: AuthenticatedRequest, res) => {
+router.patch('/:id/inventory', requirePermission('inventory:write'), async (req: AuthenticatedRequest, res) => {
   try {
-    const { color, size, stock, sku, operation = 'set' } = req.body;
+    const { variantId, color, size, stock, sku, operation = 'set' } = req.body;
 
-    if (!color || !size) {
+    if (!variantId && (!color || !size)) {
       return res.status(400).json({
         success: false,
-        error: 'Color and size are required',
+        error: 'Variant ID, or color and size, are required',
       });
     }
 
@@ -368,43 +520,66 @@ router.patch('/:id/inventory', async (req: AuthenticatedRequest, res) => {
       });
     }
 
-    // Find existing inventory item
-    const inventoryIndex = product.inventory.findIndex(
-      (item: any) => item.color === color && item.size === size
-    );
+    const before = { variants: snapshot(product)!.variants };
 
-    if (inventoryIndex >= 0) {
-      // Update existing inventory
-      const currentStock = product.inventory[inventoryIndex].stock;
+    const variant = product.resolveVariant({ variantId, color, size });
+
+    if (variant) {
+      // Update existing variant
+      const currentStock = variant.stock;
 
       switch (operation) {
         case 'add':
-          product.inventory[inventoryIndex].stock = currentStock + (stock || 0);
+          variant.stock = currentStock + (stock || 0);
           break;
         case 'remove':
-          product.inventory[inventoryIndex].stock = Math.max(0, currentStock - (stock || 0));
+          variant.stock = Math.max(0, currentStock - (stock || 0));
           break;
         case 'set':
         default:
-          product.inventory[inventoryIndex].stock = stock !== undefined ? stock : currentStock;
+          variant.stock = stock !== undefined ? stock : currentStock;
           break;
       }
 
       if (sku) {
-        product.inventory[inventoryIndex].sku = sku;
+        variant.sku = sku;
       }
+    } else if (variantId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Variant not found',
+      });
     } else {
-      // Add new inventory item
-      product.inventory.push({
+      // Add new variant
+      product.variants.push({
         color,
         size,
         stock: stock || 0,
-        sku: sku || `${product.slug}-${color}-${size}`.toUpperCase(),
+        sku: sku || generateSku(product.slug, color, size),
+        images: [],
+        isActive: true,
+      });
+    }
+
+    const skuConflict = await findSkuConflict(product.variants, product._id);
+    if (skuConflict) {
+      return res.status(400).json({
+        success: false,
+        error: `SKU ${skuConflict} is already in use`,
       });
     }
 
     await product.save();
 
+    await recordAudit(req, {
+      action: 'product.inventory-update',
+      targetType: 'product',
+      targetId: product._id,
+      before,
+      after: { variants: snapshot(product)!.variants },
+      metadata: { variantId: variant?._id, color, size, stock, operation },
+    });
+
     res.json({
       success: true,
       data: { product },
@@ -423,7 +598,7 @@ router.patch('/:id/inventory', async (req: AuthenticatedRequest, res) => {
  * PATCH /api/admin/products/:id/toggle-active
  * Toggle product active status
  */
-router.patch('/:id/toggle-active', async (req: AuthenticatedRequest, res) => {
+router.patch('/:id/toggle-active', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
   try {
     const product = await Product.findById(req.params.id);
 
@@ -437,6 +612,14 @@ router.patch('/:id/toggle-active', async (req: AuthenticatedRequest, res) => {
     product.isActive = !product.isActive;
     await product.save();
 
+    await recordAudit(req, {
+      action: 'product.toggle-active',
+      targetType: 'product',
+      targetId: product._id,
+      before: { isActive: !product.isActive },
+      after: { isActive: product.isActive },
+    });
+
     res.json({
       success: true,
       data: { product },
@@ -455,7 +638,7 @@ router.patch('/:id/toggle-active', async (req: AuthenticatedRequest, res) => {
  * PATCH /api/admin/products/:id/toggle-featured
  * Toggle product featured status
  */
-router.patch('/:id/toggle-featured', async (req: AuthenticatedRequest, res) => {
+router.patch('/:id/toggle-featured', requirePermission('products:write'), async (req: AuthenticatedRequest, res) => {
   try {
     const product = await Product.findById(req.params.id);
 
@@ -469,6 +652,14 @@ router.patch('/:id/toggle-featured', async (req: AuthenticatedRequest, res) => {
     product.isFeatured = !product.isFeatured;
     await product.save();
 
+    await recordAudit(req, {
+      action: 'product.toggle-featured',
+      targetType: 'product',
+      targetId: product._id,
+      before: { isFeatured: !product.isFeatured },
+      after: { isFeatured: product.isFeatured },
+    });
+
     res.json({
       success: true,
       data: { product },
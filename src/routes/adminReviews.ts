@@ -0,0 +1,180 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Review } from '../models/Review.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { recordAudit } from '../services/auditService.js';
+import { deleteReview, moderateReview } from '../services/reviewService.js';
+
+const router = express.Router();
+
+// Apply auth and moderation permission to all routes
+router.use(requireAuthOrApiKey as any);
+router.use(requirePermission('reviews:moderate') as any);
+
+/**
+ * GET /api/admin/reviews
+ * Moderation queue, oldest first
+ * Filters: status (pending|approved|rejected, default pending), product, rating
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { page = 1, limit = 20, status = 'pending', product, rating } = req.query;
+
+    const query: any = {};
+
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    if (product) {
+      if (!mongoose.isValidObjectId(product)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid product ID',
+        });
+      }
+      query.product = product;
+    }
+
+    if (rating) {
+      query.rating = Number(rating);
+    }
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [reviews, total] = await Promise.all([
+      Review.find(query)
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .populate('product', 'name slug images')
+        .populate('user', 'name email')
+        .populate('order', 'orderNumber deliveredAt')
+        .populate('moderatedBy', 'name email'),
+      Review.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: { reviews },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reviews',
+    });
+  }
+});
+
+/**
+ * PATCH /api/admin/reviews/:id/moderate
+ * Approve or reject a review
+ * Body: { status: 'approved' | 'rejected', note? }
+ */
+router.patch('/:id/moderate', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { status, note } = req.body;
+
+    if (!['approved', 'rejected'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Status must be approved or rejected',
+      });
+    }
+
+    const existing = mongoose.isValidObjectId(req.params.id)
+      ? await Review.findById(req.params.id)
+      : null;
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Review not found',
+      });
+    }
+
+    // Keys act on behalf of the staff member who created them
+    const moderatedBy = String(req.apiKey ? req.apiKey.createdBy : req.user!.userId);
+    const review = await moderateReview(req.params.id, status, moderatedBy, note);
+
+    await recordAudit(req, {
+      action: `review.${status === 'approved' ? 'approve' : 'reject'}`,
+      targetType: 'review',
+      targetId: review._id,
+      before: { status: existing.status, moderationNote: existing.moderationNote },
+      after: { status: review.status, moderationNote: review.moderationNote },
+      metadata: { product: String(review.product), rating: review.rating },
+    });
+
+    res.json({
+      success: true,
+      data: { review },
+      message: `Review ${status}`,
+    });
+  } catch (error: any) {
+    console.error('Error moderating review:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to moderate review',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/reviews/:id
+ * Permanently delete a review
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Review not found',
+      });
+    }
+
+    let review;
+    try {
+      review = await deleteReview(req.params.id);
+    } catch (error: any) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    await recordAudit(req, {
+      action: 'review.delete',
+      targetType: 'review',
+      targetId: review._id,
+      before: {
+        status: review.status,
+        rating: review.rating,
+        title: review.title,
+      },
+      metadata: { product: String(review.product), user: String(review.user) },
+    });
+
+    res.json({
+      success: true,
+      message: 'Review deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting review:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete review',
+    });
+  }
+});
+
+export default router;
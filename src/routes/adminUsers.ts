@@ -0,0 +1,584 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { User } from '../models/User.js';
+import { Order } from '../models/Order.js';
+import { revokeUserSessions, listSessions, startImpersonation } from '../services/authService.js';
+import { unlockAccount } from '../services/loginThrottleService.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { ROLES, Role } from '../config/permissions.js';
+import { recordAudit } from '../services/auditService.js';
+
+const router = express.Router();
+
+// Apply auth middleware to all routes, each route checks its own permission
+router.use(requireAuthOrApiKey as any);
+
+// Fields the user list can be sorted by (prefix with - for descending)
+const USER_SORT_FIELDS = ['createdAt', 'updatedAt', 'name', 'email', 'role'];
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Escape user input before using it in a regex
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * GET /api/admin/users
+ * List users with search, filters and pagination
+ */
+router.get('/', requirePermission('users:read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      search,
+      role,
+      status,
+      sort = '-createdAt',
+    } = req.query;
+
+    const query: any = {};
+
+    // Search filter
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search as string), 'i');
+      query.$or = [
+        { name: pattern },
+        { email: pattern },
+        { phone: pattern },
+      ];
+    }
+
+    // Role filter
+    if (role) {
+      query.role = role;
+    }
+
+    // Status filter
+    if (status === 'disabled') {
+      query.isDisabled = true;
+    } else if (status === 'active') {
+      query.isDisabled = { $ne: true };
+    }
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), MAX_PAGE_SIZE);
+    const skip = (pageNum - 1) * limitNum;
+
+    const sortField = String(sort).replace(/^-/, '');
+    const sortBy = USER_SORT_FIELDS.includes(sortField) ? String(sort) : '-createdAt';
+
+    const [users, total] = await Promise.all([
+      User.find(query)
+        .sort(sortBy)
+        .skip(skip)
+        .limit(limitNum)
+        .select('-addresses'),
+      User.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: { users },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch users',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/users/migration-report
+ * How many legacy Cognito users have moved to local passwords
+ */
+router.get('/migration-report', requirePermission('users:read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const legacyFilter = { cognitoId: { $exists: true, $ne: null } };
+
+    const [legacyUsers, migrated, unmigrated, lastMigration] = await Promise.all([
+      User.countDocuments(legacyFilter),
+      User.countDocuments({ ...legacyFilter, password: { $exists: true } }),
+      User.countDocuments({ ...legacyFilter, password: { $exists: false } }),
+      User.findOne({ migratedAt: { $exists: true } }).sort({ migratedAt: -1 }).select('migratedAt'),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        legacyUsers,
+        migrated,
+        unmigrated,
+        migratedPercentage: legacyUsers > 0 ? Math.round((migrated / legacyUsers) * 1000) / 10 : 100,
+        lastMigratedAt: lastMigration?.migratedAt || null,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching migration report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch migration report',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id
+ * Get user details with order count and lifetime spend
+ */
+router.get('/:id', requirePermission('users:read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const [orderStats] = await Order.aggregate([
+      {
+        $match: { user: user._id },
+      },
+      {
+        $group: {
+          _id: null,
+          orderCount: { $sum: 1 },
+          // Only money actually received counts towards spend
+          lifetimeSpend: {
+            $sum: {
+              $cond: [
+                {
+                  $and: [
+                    { $not: [{ $in: ['$orderStatus', ['cancelled', 'refunded']] }] },
+                    {
+                      $or: [
+                        { $eq: ['$paymentStatus', 'completed'] },
+                        { $eq: ['$orderStatus', 'delivered'] },
+                      ],
+                    },
+                  ],
+                },
+                '$totalAmount',
+                0,
+              ],
+            },
+          },
+          lastOrderAt: { $max: '$createdAt' },
+        },
+      },
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        user,
+        stats: {
+          orderCount: orderStats?.orderCount || 0,
+          lifetimeSpend: orderStats?.lifetimeSpend || 0,
+          lastOrderAt: orderStats?.lastOrderAt || null,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching user:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch user',
+    });
+  }
+});
+
+/**
+ * PATCH /api/admin/users/:id/role
+ * Change a user's role (logs the user out everywhere)
+ */
+router.patch('/:id/role', requirePermission('users:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const { role } = req.body;
+
+    if (!ROLES.includes(role as Role)) {
+      return res.status(400).json({
+        success: false,
+        error: `Role must be one of: ${ROLES.join(', ')}`,
+      });
+    }
+
+    if (req.params.id === req.user!.userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot change your own role',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+
+    await recordAudit(req, {
+      action: 'user.role-change',
+      targetType: 'user',
+      targetId: user._id,
+      before: { role: previousRole },
+      after: { role: user.role },
+    });
+
+    // Role is baked into issued tokens
+    await revokeUserSessions(String(user._id));
+
+    res.json({
+      success: true,
+      data: { user },
+      message: `User role changed to ${role}`,
+    });
+  } catch (error: any) {
+    console.error('Error changing user role:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to change user role',
+    });
+  }
+});
+
+/**
+ * PATCH /api/admin/users/:id/disable
+ * Disable an account and log it out everywhere
+ */
+router.patch('/:id/disable', requirePermission('users:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (req.params.id === req.user!.userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot disable your own account',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    user.isDisabled = true;
+    user.disabledAt = new Date();
+    user.disabledReason = req.body?.reason;
+    await user.save();
+
+    await recordAudit(req, {
+      action: 'user.disable',
+      targetType: 'user',
+      targetId: user._id,
+      before: { isDisabled: false },
+      after: { isDisabled: true, disabledReason: user.disabledReason },
+    });
+
+    await revokeUserSessions(String(user._id));
+
+    res.json({
+      success: true,
+      data: { user },
+      message: 'User disabled successfully',
+    });
+  } catch (error: any) {
+    console.error('Error disabling user:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable user',
+    });
+  }
+});
+
+/**
+ * PATCH /api/admin/users/:id/enable
+ * Re-enable a disabled account
+ */
+router.patch('/:id/enable', requirePermission('users:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (user.deletedAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'Deleted accounts cannot be re-enabled',
+      });
+    }
+
+    const before = { isDisabled: user.isDisabled, disabledReason: user.disabledReason };
+    user.isDisabled = false;
+    user.disabledAt = undefined;
+    user.disabledReason = undefined;
+    await user.save();
+
+    await recordAudit(req, {
+      action: 'user.enable',
+      targetType: 'user',
+      targetId: user._id,
+      before,
+      after: { isDisabled: false },
+    });
+
+    res.json({
+      success: true,
+      data: { user },
+      message: 'User enabled successfully',
+    });
+  } catch (error: any) {
+    console.error('Error enabling user:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable user',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id/sessions
+ * List the devices a user is signed in on
+ */
+router.get('/:id/sessions', requirePermission('users:read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const sessions = await listSessions(String(user._id));
+
+    res.json({
+      success: true,
+      data: { sessions },
+    });
+  } catch (error: any) {
+    console.error('Error fetching user sessions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch user sessions',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/logout
+ * Force logout a user from all devices, revoking every session (e.g. after a role change)
+ */
+router.post('/:id/logout', requirePermission('users:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    await revokeUserSessions(String(user._id));
+
+    await recordAudit(req, {
+      action: 'user.force-logout',
+      targetType: 'user',
+      targetId: user._id,
+    });
+
+    res.json({
+      success: true,
+      message: `User ${user.email} has been logged out from all devices`,
+    });
+  } catch (error: any) {
+    console.error('Error forcing user logout:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out user',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/impersonate
+ * Get a short lived token to act as a customer (e.g. to reproduce a cart issue).
+ * Read-only unless allowWrites is true. Every request made with it is audited.
+ * Body: { reason, allowWrites? }
+ */
+router.post('/:id/impersonate', requirePermission('users:impersonate'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { reason, allowWrites = false } = req.body;
+
+    // Only a logged in admin can impersonate, never an API key or another impersonation
+    if (req.apiKey || req.user!.impersonator) {
+      return res.status(403).json({
+        success: false,
+        error: 'Impersonation requires an admin login',
+      });
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required to impersonate a customer',
+      });
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    let result;
+    try {
+      result = await startImpersonation(req.user!.userId, req.params.id, {
+        readOnly: allowWrites !== true,
+        reason: reason.trim(),
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    await recordAudit(req, {
+      action: 'user.impersonate',
+      targetType: 'user',
+      targetId: req.params.id,
+      metadata: {
+        reason: reason.trim(),
+        readOnly: result.readOnly,
+        expiresAt: result.expiresAt,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error starting impersonation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to impersonate user',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/unlock
+ * Clear a login lockout and failed attempt counter
+ */
+router.post('/:id/unlock', requirePermission('users:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    await unlockAccount(user.email);
+
+    await recordAudit(req, {
+      action: 'user.unlock',
+      targetType: 'user',
+      targetId: user._id,
+    });
+
+    res.json({
+      success: true,
+      message: `Account ${user.email} has been unlocked`,
+    });
+  } catch (error: any) {
+    console.error('Error unlocking account:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unlock account',
+    });
+  }
+});
+
+export default router;
@@ -1,10 +1,98 @@
-import express from 'express';
-import { signUp, signIn, signOut, getUserDetails } from '../services/authService.js';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import express, { Request, Response } from 'express';
+import {
+  signUp,
+  signIn,
+  signOut,
+  getUserDetails,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  refreshSession,
+  revokeUserSessions,
+  changePassword,
+  signInWithPhone,
+  listSessions,
+  revokeUserSession,
+  ClientContext,
+  AuthResult,
+  TwoFactorChallenge,
+  verifyTwoFactorSignIn,
+  getTwoFactorChallengeEmail,
+  signInWithOidc,
+} from '../services/authService.js';
+import { oidcProvider } from '../services/oidcProvider.js';
+import {
+  startTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '../services/twoFactorService.js';
+import { requireAuth, denyImpersonation, AuthenticatedRequest } from '../middleware/auth.js';
 import { User } from '../models/User.js';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from '../services/loginThrottleService.js';
+import { requestOtp } from '../services/otpService.js';
+import { isValidPhone, MIN_PASSWORD_LENGTH } from '../utils/validation.js';
 
 const router = express.Router();
 
+// Where the browser is sent after an OIDC login (errors are added as ?error=)
+const OIDC_FRONTEND_REDIRECT = process.env.OIDC_FRONTEND_REDIRECT || 'http://localhost:8080/auth/callback';
+
+/**
+ * Describe the device a request comes from, for the session list
+ */
+function clientContext(req: Request): ClientContext {
+  return {
+    userAgent: req.get('user-agent'),
+    ip: req.ip,
+    sessionId: req.sessionID,
+  };
+}
+
+/**
+ * Keep the tokens in the session so cookie based clients are logged in
+ */
+function storeAuthSession(req: Request, result: AuthResult) {
+  if (req.session) {
+    req.session.accessToken = result.accessToken;
+    req.session.refreshToken = result.refreshToken;
+    req.session.user = {
+      email: result.user.email,
+      userId: result.user.userId,
+      isAdmin: result.user.isAdmin,
+      name: result.user.name,
+    };
+  }
+}
+
+/**
+ * Store the tokens in the session and send the login response.
+ * Accounts with 2FA get the challenge token to complete at /2fa/verify instead.
+ */
+function sendAuthResult(req: Request, res: Response, result: AuthResult | TwoFactorChallenge) {
+  if ('requiresTwoFactor' in result) {
+    return res.json({
+      success: true,
+      requiresTwoFactor: true,
+      twoFactorToken: result.twoFactorToken,
+      expiresIn: result.expiresIn,
+    });
+  }
+
+  storeAuthSession(req, result);
+
+  res.json({
+    success: true,
+    user: result.user,
+    tokens: {
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
+    },
+  });
+}
+
 /**
  * POST /api/auth/signup
  * User registration
@@ -22,9 +110,7 @@ router.post('/signup', async (req, res) => {
 
     // Phone number validation if provided
     if (phoneNumber) {
-      const phoneRegex = /^(\+91)?[6-9]\d{9}$/;
-      const cleanPhone = phoneNumber.replace(/\s+/g, '');
-      if (!phoneRegex.test(cleanPhone)) {
+      if (!isValidPhone(phoneNumber)) {
         return res.status(400).json({
           success: false,
           error: 'Invalid phone number format. Use +919876543210 or 9876543210',
@@ -36,8 +122,8 @@ router.post('/signup', async (req, res) => {
 
     res.json({
       success: true,
-      requiresConfirmation: false,
-      message: 'User created successfully. You can now login.',
+      requiresConfirmation: result.requiresConfirmation,
+      message: 'User created successfully. Please check your email to verify your account.',
       user: result.user
     });
   } catch (error: any) {
@@ -64,32 +150,571 @@ router.post('/login', async (req, res) => {
       });
     }
 
-    const result = await signIn(email, password);
+    const ip = req.ip || 'unknown';
+    const throttle = await checkLoginAllowed(email, ip);
+
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: throttle.locked
+          ? 'Too many failed login attempts. Your account is temporarily locked, please try again later.'
+          : 'Too many failed login attempts. Please wait before trying again.',
+        retryAfter: throttle.retryAfterSeconds,
+      });
+    }
+
+    let result;
+    try {
+      result = await signIn(email, password, clientContext(req));
+    } catch (error) {
+      await recordLoginFailure(email, ip);
+      throw error;
+    }
+
+    await recordLoginSuccess(email, ip);
+
+    sendAuthResult(req, res, result);
+  } catch (error: any) {
+    console.error('Login error:', error);
+    res.status(401).json({
+      success: false,
+      error: error.message || 'Authentication failed',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/oidc/login
+ * Redirect the browser to the OIDC provider (e.g. "Continue with Google")
+ */
+router.get('/oidc/login', async (req, res) => {
+  try {
+    if (!oidcProvider) {
+      return res.status(404).json({
+        success: false,
+        error: 'Single sign-on is not configured',
+      });
+    }
+
+    const { url, authorization } = await oidcProvider.createAuthorizationRequest();
+    req.session.oidc = authorization;
+
+    res.redirect(url);
+  } catch (error: any) {
+    console.error('OIDC login error:', error);
+    res.redirect(`${OIDC_FRONTEND_REDIRECT}?error=${encodeURIComponent('Failed to start sign in')}`);
+  }
+});
+
+/**
+ * GET /api/auth/oidc/callback
+ * Provider redirect target: completes the login, stores the tokens in the
+ * session and sends the browser back to the frontend. Accounts with 2FA get
+ * the challenge token in the URL fragment to complete at /2fa/verify.
+ */
+router.get('/oidc/callback', async (req, res) => {
+  const authorization = req.session.oidc;
+  delete req.session.oidc;
+
+  try {
+    if (!oidcProvider) {
+      return res.status(404).json({
+        success: false,
+        error: 'Single sign-on is not configured',
+      });
+    }
+
+    const { code, state, error, error_description } = req.query;
+
+    if (error) {
+      throw new Error(String(error_description || error));
+    }
+
+    if (!authorization || !state || state !== authorization.state || !code) {
+      throw new Error('Your sign in session has expired. Please try again.');
+    }
+
+    const claims = await oidcProvider.authenticate(String(code), authorization);
+    const result = await signInWithOidc(oidcProvider.name, claims, clientContext(req));
+
+    if ('requiresTwoFactor' in result) {
+      return res.redirect(`${OIDC_FRONTEND_REDIRECT}#twoFactorToken=${encodeURIComponent(result.twoFactorToken)}`);
+    }
+
+    storeAuthSession(req, result);
+    res.redirect(OIDC_FRONTEND_REDIRECT);
+  } catch (error: any) {
+    console.error('OIDC callback error:', error);
+    res.redirect(`${OIDC_FRONTEND_REDIRECT}?error=${encodeURIComponent(error.message || 'Sign in failed')}`);
+  }
+});
+
+/**
+ * POST /api/auth/2fa/verify
+ * Complete a login with an authenticator or recovery code
+ */
+router.post('/2fa/verify', async (req, res) => {
+  try {
+    const { twoFactorToken, code } = req.body;
+
+    if (!twoFactorToken || !code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor token and code are required',
+      });
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const email = getTwoFactorChallengeEmail(twoFactorToken);
+    const ip = req.ip || 'unknown';
+
+    if (email) {
+      const throttle = await checkLoginAllowed(email, ip);
+
+      if (!throttle.allowed) {
+        res.set('Retry-After', String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          success: false,
+          error: 'Too many failed login attempts. Please wait before trying again.',
+          retryAfter: throttle.retryAfterSeconds,
+        });
+      }
+    }
+
+    let result;
+    try {
+      result = await verifyTwoFactorSignIn(twoFactorToken, String(code), clientContext(req));
+    } catch (error) {
+      if (email) {
+        await recordLoginFailure(email, ip);
+      }
+      throw error;
+    }
+
+    if (email) {
+      await recordLoginSuccess(email, ip);
+    }
+
+    sendAuthResult(req, res, result);
+  } catch (error: any) {
+    console.error('2FA verify error:', error);
+    res.status(401).json({
+      success: false,
+      error: error.message || 'Failed to verify code',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start 2FA enrolment - returns the secret and otpauth URI for an authenticator app
+ */
+router.post('/2fa/setup', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await startTwoFactorSetup(req.user!.userId);
+
+    res.json({
+      success: true,
+      secret: result.secret,
+      otpauthUri: result.otpauthUri,
+    });
+  } catch (error: any) {
+    console.error('2FA setup error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to start two-factor setup',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrolment with a code from the authenticator app.
+ * Returns the recovery codes, which are only shown once.
+ */
+router.post('/2fa/enable', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Authentication code is required',
+      });
+    }
+
+    const result = await enableTwoFactor(req.user!.userId, String(code));
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      recoveryCodes: result.recoveryCodes,
+    });
+  } catch (error: any) {
+    console.error('2FA enable error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to enable two-factor authentication',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes (requires a current code)
+ */
+router.post('/2fa/recovery-codes', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Authentication code is required',
+      });
+    }
+
+    const result = await regenerateRecoveryCodes(req.user!.userId, String(code));
+
+    res.json({
+      success: true,
+      recoveryCodes: result.recoveryCodes,
+    });
+  } catch (error: any) {
+    console.error('2FA recovery codes error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to regenerate recovery codes',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn 2FA off (requires a current code)
+ */
+router.post('/2fa/disable', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Authentication code is required',
+      });
+    }
+
+    await disableTwoFactor(req.user!.userId, String(code));
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error: any) {
+    console.error('2FA disable error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to disable two-factor authentication',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/otp/request
+ * Text a one-time login code to a phone number
+ */
+router.post('/otp/request', async (req, res) => {
+  try {
+    const { phone } = req.body;
+
+    if (!phone) {
+      return res.status(400).json({
+        success: false,
+        error: 'Phone number is required',
+      });
+    }
+
+    if (!isValidPhone(phone)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid phone number format. Use +919876543210 or 9876543210',
+      });
+    }
+
+    const result = await requestOtp(phone, req.ip);
+
+    if (!result.sent) {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: 'Please wait before requesting another code',
+        retryAfter: result.retryAfterSeconds,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Verification code sent',
+      retryAfter: result.retryAfterSeconds,
+    });
+  } catch (error: any) {
+    console.error('OTP request error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send verification code',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/otp/verify
+ * Login (or sign up with name and email) using a texted code
+ */
+router.post('/otp/verify', async (req, res) => {
+  try {
+    const { phone, code, name, email } = req.body;
 
-    // Store token in session
-    if (req.session) {
+    if (!phone || !code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Phone number and code are required',
+      });
+    }
+
+    if (!isValidPhone(phone)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid phone number format. Use +919876543210 or 9876543210',
+      });
+    }
+
+    const result = await signInWithPhone(phone, code, { name, email }, clientContext(req));
+
+    sendAuthResult(req, res, result);
+  } catch (error: any) {
+    console.error('OTP verify error:', error);
+    res.status(401).json({
+      success: false,
+      error: error.message || 'Failed to verify code',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token (body or session) for new tokens
+ */
+router.post('/refresh', async (req, res) => {
+  try {
+    const refreshToken = req.body?.refreshToken || req.session?.refreshToken;
+
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Refresh token is required',
+      });
+    }
+
+    const result = await refreshSession(refreshToken);
+
+    // Keep session-based clients in sync with the rotated tokens
+    if (req.session?.user) {
       req.session.accessToken = result.accessToken;
-      req.session.user = {
-        email: result.user.email,
-        userId: result.user.userId,
-        isAdmin: result.user.isAdmin,
-        name: result.user.name,
-      };
+      req.session.refreshToken = result.refreshToken;
     }
 
     res.json({
       success: true,
-      user: result.user,
       tokens: {
         accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
         expiresIn: result.expiresIn,
       },
     });
   } catch (error: any) {
-    console.error('Login error:', error);
+    console.error('Refresh token error:', error);
     res.status(401).json({
       success: false,
-      error: error.message || 'Authentication failed',
+      error: error.message || 'Failed to refresh session',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm email address using the emailed token. Confirming an email change
+ * signs out every device.
+ */
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        error: 'Verification token is required',
+      });
+    }
+
+    const result = await verifyEmail(token);
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      email: result.email,
+    });
+  } catch (error: any) {
+    console.error('Verify email error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to verify email',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new email verification link (the account email, or a pending new email)
+ */
+router.post('/resend-verification', async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required',
+      });
+    }
+
+    await resendVerificationEmail(email);
+
+    res.json({
+      success: true,
+      message: 'If this email is registered and not yet verified, a new verification link has been sent.',
+    });
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send verification email',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link
+ */
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required',
+      });
+    }
+
+    await requestPasswordReset(email);
+
+    // Same response whether or not the account exists
+    res.json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    });
+  } catch (error: any) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send password reset email',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token
+ */
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Token and new password are required',
+      });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      });
+    }
+
+    await resetPassword(token, password);
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. You can now login.',
+    });
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to reset password',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/change-password
+ * Change password while logged in (logs out every other session)
+ */
+router.post('/change-password', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        error: 'Current password and new password are required',
+      });
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      });
+    }
+
+    const result = await changePassword(req.user!.userId, currentPassword, newPassword, req.user!.sessionId);
+
+    // Keep the current session logged in with the new tokens
+    if (req.session?.user) {
+      req.session.accessToken = result.accessToken;
+      req.session.refreshToken = result.refreshToken;
+    }
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully. Other sessions have been logged out.',
+      tokens: {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        expiresIn: result.expiresIn,
+      },
+    });
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to change password',
     });
   }
 });
@@ -100,6 +725,18 @@ router.post('/login', async (req, res) => {
  */
 router.post('/logout', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
+    // Ending an impersonation only revokes its token - the cookie session belongs to the admin
+    if (req.user!.impersonator) {
+      await signOut(req.user!.accessToken!);
+      return res.json({
+        success: true,
+        message: 'Impersonation ended',
+      });
+    }
+
+    // Revoke the tokens used by this device
+    await signOut(req.user!.accessToken!, req.body?.refreshToken || req.session?.refreshToken);
+
     // Destroy session
     req.session.destroy((err) => {
       if (err) {
@@ -122,25 +759,99 @@ router.post('/logout', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 /**
- * GET /api/auth/me
- * Get current user information from session
+ * POST /api/auth/logout-all
+ * Log out from every device by revoking all tokens
  */
-router.get('/me', async (req: AuthenticatedRequest, res) => {
+router.post('/logout-all', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
   try {
-    // Check if user session exists
-    if (!req.session?.user || !req.session?.accessToken) {
-      return res.status(401).json({
-        success: false,
-        error: 'Not authenticated',
+    await revokeUserSessions(req.user!.userId);
+
+    req.session.destroy((err) => {
+      if (err) {
+        console.error('Session destroy error:', err);
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Logged out from all devices',
+    });
+  } catch (error: any) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out from all devices',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * List the devices the user is signed in on
+ */
+router.get('/sessions', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const sessions = await listSessions(req.user!.userId, req.user!.sessionId);
+
+    res.json({
+      success: true,
+      sessions,
+    });
+  } catch (error: any) {
+    console.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign out a single device
+ */
+router.delete('/sessions/:id', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res) => {
+  try {
+    await revokeUserSession(req.user!.userId, req.params.id);
+
+    if (req.params.id === req.user!.sessionId) {
+      req.session.destroy((err) => {
+        if (err) {
+          console.error('Session destroy error:', err);
+        }
       });
     }
 
+    res.json({
+      success: true,
+      message: 'Session signed out',
+    });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(404).json({
+      success: false,
+      error: error.message || 'Failed to sign out session',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get current user information (Bearer token or session)
+ */
+router.get('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
     // Get user from MongoDB for full details
-    const user = await getUserDetails(req.session.user.email);
+    const user = await getUserDetails(req.user!.userId);
+    const impersonator = req.user!.impersonator;
 
     res.json({
       success: true,
       user: user,
+      // Lets the frontend show an "acting as" banner
+      impersonation: impersonator
+        ? { by: impersonator.email, readOnly: impersonator.readOnly, reason: impersonator.reason }
+        : undefined,
     });
   } catch (error: any) {
     console.error('Get user error:', error);
@@ -1,39 +1,33 @@
-import express, { Request, Response } from 'express';
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
 import { Cart } from '../models/Cart.js';
-import { Product } from '../models/Product.js';
-import { User } from '../models/User.js';
+import { Product, IProduct } from '../models/Product.js';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = express.Router();
 
-// Middleware to check authentication
-const requireAuth = (req: Request, res: Response, next: Function) => {
-  if (!req.session?.user?.userId) {
-    return res.status(401).json({ 
-      success: false,
-      error: 'Authentication required' 
-    });
-  }
-  next();
-};
+/**
+ * Find the variant a request refers to: variantId, or color and size from older clients
+ */
+function resolveRequestedVariant(product: IProduct, body: any) {
+  return product.resolveVariant({
+    variantId: body.variantId,
+    color: body.color,
+    size: body.size,
+  });
+}
 
 /**
  * GET /api/cart
  * Get user's cart
  */
-router.get('/', requireAuth, async (req: Request, res: Response) => {
+router.get('/', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     let cart = await Cart.findOne({ user: mongoUser._id }).populate({
       path: 'items.product',
-      select: 'name slug price images colors sizes inventory'
+      select: 'name slug price images variants'
     });
 
     // Create cart if it doesn't exist
@@ -65,24 +59,17 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
  * POST /api/cart/add
  * Add item to cart
  */
-router.post('/add', requireAuth, async (req: Request, res: Response) => {
+router.post('/add', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
-    const { productId, color, size, quantity = 1 } = req.body;
+    const { productId, variantId, color, size, quantity = 1 } = req.body;
 
     // Validation
-    if (!productId || !color || !size) {
+    if (!productId || (!variantId && (!color || !size))) {
       return res.status(400).json({ 
         success: false,
-        error: 'Product ID, color, and size are required' 
+        error: 'Product ID and variant ID are required' 
       });
     }
 
@@ -102,23 +89,26 @@ router.post('/add', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Check if product has the requested color and size
-    if (!product.colors.includes(color)) {
-      return res.status(400).json({ 
-        success: false,
-        error: `Color '${color}' is not available for this product` 
-      });
+    // Get or create cart
+    let cart = await Cart.findOne({ user: mongoUser._id });
+    if (!cart) {
+      cart = await Cart.create({ user: mongoUser._id, items: [] });
     }
 
-    if (!product.sizes.some(s => s.name === size)) {
+    // Check the product has the requested variant
+    const variant = resolveRequestedVariant(product, req.body);
+    if (!variant || !variant.isActive) {
       return res.status(400).json({ 
         success: false,
-        error: `Size '${size}' is not available for this product` 
+        error: 'This variant is not available for this product' 
       });
     }
 
-    // Check stock availability
-    const stockAvailable = await product.checkStock(color, size, quantity);
+    // Check stock availability (including what is already in the cart)
+    const inCart = cart.items.find(
+      item => String(item.product) === String(product._id) && String(item.variant) === String(variant._id)
+    )?.quantity || 0;
+    const stockAvailable = product.checkStock(variant._id, inCart + quantity);
     if (!stockAvailable) {
       return res.status(400).json({ 
         success: false,
@@ -126,19 +116,13 @@ router.post('/add', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Get or create cart
-    let cart = await Cart.findOne({ user: mongoUser._id });
-    if (!cart) {
-      cart = await Cart.create({ user: mongoUser._id, items: [] });
-    }
-
     // Add item to cart
-    await cart.addItem(productId, color, size, quantity, product.price);
+    await cart.addItem(product._id as mongoose.Types.ObjectId, variant, quantity, product.priceFor(variant));
 
     // Populate product details
     await cart.populate({
       path: 'items.product',
-      select: 'name slug price images colors sizes inventory'
+      select: 'name slug price images variants'
     });
 
     res.json({
@@ -166,24 +150,17 @@ router.post('/add', requireAuth, async (req: Request, res: Response) => {
  * PUT /api/cart/update
  * Update item quantity in cart
  */
-router.put('/update', requireAuth, async (req: Request, res: Response) => {
+router.put('/update', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
-    const { productId, color, size, quantity } = req.body;
+    const { productId, variantId, color, size, quantity } = req.body;
 
     // Validation
-    if (!productId || !color || !size || quantity === undefined) {
+    if (!productId || (!variantId && (!color || !size)) || quantity === undefined) {
       return res.status(400).json({ 
         success: false,
-        error: 'Product ID, color, size, and quantity are required' 
+        error: 'Product ID, variant ID, and quantity are required' 
       });
     }
 
@@ -202,20 +179,21 @@ router.put('/update', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
+    const product = await Product.findById(productId);
+    const variant = product && resolveRequestedVariant(product, req.body);
+    if (!product || !variant) {
+      return res.status(404).json({ 
+        success: false,
+        error: 'Product not found' 
+      });
+    }
+
     // If quantity is 0, remove the item
     if (quantity === 0) {
-      await cart.removeItem(productId, color, size);
+      await cart.removeItem(productId, variant._id!);
     } else {
       // Check stock availability
-      const product = await Product.findById(productId);
-      if (!product) {
-        return res.status(404).json({ 
-          success: false,
-          error: 'Product not found' 
-        });
-      }
-
-      const stockAvailable = await product.checkStock(color, size, quantity);
+      const stockAvailable = product.checkStock(variant._id, quantity);
       if (!stockAvailable) {
         return res.status(400).json({ 
           success: false,
@@ -223,13 +201,13 @@ router.put('/update', requireAuth, async (req: Request, res: Response) => {
         });
       }
 
-      await cart.updateItemQuantity(productId, color, size, quantity);
+      await cart.updateItemQuantity(productId, variant._id!, quantity);
     }
 
     // Populate product details
     await cart.populate({
       path: 'items.product',
-      select: 'name slug price images colors sizes inventory'
+      select: 'name slug price images variants'
     });
 
     res.json({
@@ -257,24 +235,17 @@ router.put('/update', requireAuth, async (req: Request, res: Response) => {
  * DELETE /api/cart/remove
  * Remove item from cart
  */
-router.delete('/remove', requireAuth, async (req: Request, res: Response) => {
+router.delete('/remove', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
-    const { productId, color, size } = req.body;
+    const { productId, variantId, color, size } = req.body;
 
     // Validation
-    if (!productId || !color || !size) {
+    if (!productId || (!variantId && (!color || !size))) {
       return res.status(400).json({ 
         success: false,
-        error: 'Product ID, color, and size are required' 
+        error: 'Product ID and variant ID are required' 
       });
     }
 
@@ -286,12 +257,20 @@ router.delete('/remove', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    await cart.removeItem(productId, color, size);
+    // Older clients send color and size - match them against the items' labels
+    const item = cart.items.find(item =>
+      String(item.product) === String(productId) &&
+      (variantId ? String(item.variant) === String(variantId) : item.color === color && item.size === size)
+    );
+
+    if (item) {
+      await cart.removeItem(productId, item.variant);
+    }
 
     // Populate product details
     await cart.populate({
       path: 'items.product',
-      select: 'name slug price images colors sizes inventory'
+      select: 'name slug price images variants'
     });
 
     res.json({
@@ -319,16 +298,9 @@ router.delete('/remove', requireAuth, async (req: Request, res: Response) => {
  * DELETE /api/cart/clear
  * Clear entire cart
  */
-router.delete('/clear', requireAuth, async (req: Request, res: Response) => {
+router.delete('/clear', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     const cart = await Cart.findOne({ user: mongoUser._id });
     if (!cart) {
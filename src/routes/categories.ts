@@ -0,0 +1,28 @@
+import express, { Request, Response } from 'express';
+import { Category } from '../models/Category.js';
+import { buildCategoryTree } from '../services/categoryService.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/categories
+ * Get active categories as a tree
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const categories = await Category.find({ isActive: true });
+
+    res.json({
+      success: true,
+      data: { categories: buildCategoryTree(categories) }
+    });
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch categories'
+    });
+  }
+});
+
+export default router;
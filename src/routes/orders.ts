@@ -1,97 +1,88 @@
-import express, { Request, Response } from 'express';
+import express, { Response, NextFunction } from 'express';
 import { Order } from '../models/Order.js';
 import { Cart } from '../models/Cart.js';
-import { Product } from '../models/Product.js';
-import { User } from '../models/User.js';
+import { requireAuth, requireAuthOrApiKey, requirePermission, denyImpersonation, AuthenticatedRequest } from '../middleware/auth.js';
 import { sendEmail } from '../config/ses.js';
+import { validateAddress, sanitizeAddress } from '../utils/validation.js';
+import { recordAudit } from '../services/auditService.js';
+import { restoreOrderStock } from '../services/orderStockService.js';
 
 const router = express.Router();
 
-// Middleware to check authentication
-const requireAuth = (req: Request, res: Response, next: Function) => {
-  if (!req.session?.user?.userId) {
-    return res.status(401).json({ 
-      success: false,
-      error: 'Authentication required' 
-    });
-  }
-  next();
-};
-
-// Middleware to check admin role
-const requireAdmin = (req: Request, res: Response, next: Function) => {
-  if (!req.session?.user?.userId || !req.session?.user?.isAdmin) {
-    return res.status(403).json({ 
-      success: false,
-      error: 'Admin access required' 
-    });
-  }
-  next();
-};
+// Block checkout for unverified emails unless explicitly disabled
+const REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT = process.env.REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT !== 'false';
 
 /**
  * POST /api/orders
  * Create a new order from cart
  */
-router.post('/', requireAuth, async (req: Request, res: Response) => {
+router.post('/', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
+    const mongoUser = req.mongoUser!;
+
+    if (REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT && !mongoUser.isEmailVerified) {
+      return res.status(403).json({
         success: false,
-        error: 'User not found' 
+        error: 'Please verify your email address before placing an order'
       });
     }
 
-    const { shippingAddress, billingAddress, useSameAddress = true } = req.body;
+    const { shippingAddressId, billingAddressId, useSameAddress = true } = req.body;
 
-    // Comprehensive validation for shipping address
-    if (!shippingAddress) {
-      return res.status(400).json({
+    // Resolve saved addresses from the address book
+    const savedShipping = shippingAddressId
+      ? mongoUser.addresses.find(address => String(address._id) === String(shippingAddressId))
+      : undefined;
+    if (shippingAddressId && !savedShipping) {
+      return res.status(404).json({
         success: false,
-        error: 'Shipping address is required'
+        error: 'Shipping address not found'
       });
     }
 
-    // Validate required address fields
-    const requiredFields = ['fullName', 'phone', 'addressLine1', 'city', 'state', 'pincode'];
-    const missingFields = requiredFields.filter(field => !shippingAddress[field]);
-    
-    if (missingFields.length > 0) {
-      return res.status(400).json({
+    const savedBilling = billingAddressId
+      ? mongoUser.addresses.find(address => String(address._id) === String(billingAddressId))
+      : undefined;
+    if (billingAddressId && !savedBilling) {
+      return res.status(404).json({
         success: false,
-        error: `Missing required fields: ${missingFields.join(', ')}`
+        error: 'Billing address not found'
       });
     }
 
-    // Validate pincode format (Indian pincode)
-    if (!/^\d{6}$/.test(shippingAddress.pincode)) {
+    const shippingInput = savedShipping || req.body.shippingAddress;
+    const billingInput = savedBilling || req.body.billingAddress;
+
+    // Comprehensive validation for shipping address
+    if (!shippingInput) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid pincode format. Must be 6 digits.'
+        error: 'Shipping address is required'
       });
     }
 
-    // Validate phone format
-    const phoneRegex = /^(\+91)?[6-9]\d{9}$/;
-    const cleanPhone = shippingAddress.phone.replace(/\s+/g, '');
-    if (!phoneRegex.test(cleanPhone)) {
+    const shippingError = validateAddress(shippingInput);
+    if (shippingError) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid phone number format'
+        error: shippingError
       });
     }
 
-    // Sanitize string inputs
-    shippingAddress.fullName = shippingAddress.fullName.trim();
-    shippingAddress.addressLine1 = shippingAddress.addressLine1.trim();
-    shippingAddress.city = shippingAddress.city.trim();
-    shippingAddress.state = shippingAddress.state.trim();
-    if (shippingAddress.addressLine2) {
-      shippingAddress.addressLine2 = shippingAddress.addressLine2.trim();
+    if (!useSameAddress && billingInput) {
+      const billingError = validateAddress(billingInput);
+      if (billingError) {
+        return res.status(400).json({
+          success: false,
+          error: `Billing address: ${billingError}`
+        });
+      }
     }
 
+    // Sanitize string inputs
+    const shippingAddress = sanitizeAddress(shippingInput);
+    const billingAddress = billingInput ? sanitizeAddress(billingInput) : undefined;
+
     // Get user's cart
     const cart = await Cart.findOne({ user: mongoUser._id }).populate('items.product');
 
@@ -105,7 +96,7 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
     // Verify stock availability for all items
     for (const item of cart.items) {
       const product = item.product as any;
-      const stockAvailable = await product.checkStock(item.color, item.size, item.quantity);
+      const stockAvailable = product.checkStock(item.variant, item.quantity);
       
       if (!stockAvailable) {
         return res.status(400).json({
@@ -157,22 +148,18 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
     // Prepare order items with all required fields
     const orderItems = cart.items.map(item => {
       const product = item.product as any;
-      
-      // Find SKU from product inventory
-      const inventoryItem = product.inventory?.find(
-        (inv: any) => inv.color === item.color && inv.size === item.size
-      );
-      const sku = inventoryItem?.sku || `${product.slug}-${item.color}-${item.size}`.toUpperCase().replace(/\s+/g, '-');
+      const variant = product.findVariant(item.variant);
       
       return {
         product: product._id,
+        variant: variant._id,
         productName: product.name,
-        productImage: product.images[0] || '/placeholder.svg',
-        color: item.color,
-        size: item.size,
+        productImage: variant.images[0] || product.images[0] || '/placeholder.svg',
+        color: variant.color,
+        size: variant.size,
         quantity: item.quantity,
         price: item.price,
-        sku: sku
+        sku: variant.sku
       };
     });
 
@@ -246,16 +233,9 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
  * GET /api/orders
  * Get user's orders
  */
-router.get('/', requireAuth, async (req: Request, res: Response) => {
+router.get('/', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     const { page = 1, limit = 10, status } = req.query;
 
@@ -301,18 +281,11 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
  * GET /api/orders/:id
  * Get single order by ID
  */
-router.get('/:id', requireAuth, async (req: Request, res: Response) => {
+router.get('/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
     
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     const order = await Order.findById(id)
       .populate('user', 'email name')
@@ -325,8 +298,8 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Check if user owns this order or is admin
-    if (order.user._id.toString() !== String(mongoUser._id) && !req.session?.user?.isAdmin) {
+    // Check if user owns this order or is staff allowed to read orders
+    if (order.user._id.toString() !== String(mongoUser._id) && !req.user!.permissions.includes('orders:read')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -346,11 +319,20 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Refunding needs refunds:create (finance), any other status change needs
+ * orders:update-status (fulfillment)
+ */
+function requireStatusPermission(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  const permission = req.body?.orderStatus === 'refunded' ? 'refunds:create' : 'orders:update-status';
+  return requirePermission(permission)(req, res, next);
+}
+
 /**
  * PUT /api/orders/:id/status
- * Update order status (Admin only)
+ * Update order status (orders:update-status, or refunds:create to mark it refunded)
  */
-router.put('/:id/status', requireAdmin, async (req: Request, res: Response) => {
+router.put('/:id/status', requireAuthOrApiKey, requireStatusPermission, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
     const { orderStatus, trackingNumber, carrier } = req.body;
@@ -390,6 +372,12 @@ router.put('/:id/status', requireAdmin, async (req: Request, res: Response) => {
       });
     }
 
+    const before = {
+      orderStatus: order.orderStatus,
+      trackingNumber: order.trackingNumber,
+      carrier: order.carrier,
+    };
+
     // Update order status
     order.orderStatus = orderStatus;
 
@@ -408,6 +396,19 @@ router.put('/:id/status', requireAdmin, async (req: Request, res: Response) => {
 
     await order.save();
 
+    await recordAudit(req, {
+      action: 'order.status-change',
+      targetType: 'order',
+      targetId: order._id,
+      before,
+      after: {
+        orderStatus: order.orderStatus,
+        trackingNumber: order.trackingNumber,
+        carrier: order.carrier,
+      },
+      metadata: { orderNumber: order.orderNumber },
+    });
+
     // Send email notification based on status
     const userEmail = (order.user as any).email;
     const userName = (order.user as any).name || 'Customer';
@@ -441,18 +442,11 @@ router.put('/:id/status', requireAdmin, async (req: Request, res: Response) => {
  * POST /api/orders/:id/cancel
  * Cancel an order (User can cancel if not shipped)
  */
-router.post('/:id/cancel', requireAuth, async (req: Request, res: Response) => {
+router.post('/:id/cancel', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
     
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     const order = await Order.findById(id);
 
@@ -486,24 +480,13 @@ router.post('/:id/cancel', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
+    // Put back only the stock that was actually taken for the order
+    await restoreOrderStock(order);
+
     // Update order status
     order.orderStatus = 'cancelled';
     await order.save();
 
-    // Restore stock for all items
-    for (const item of order.items) {
-      const product = await Product.findById(item.product);
-      if (product) {
-        const inventoryItem = product.inventory.find(
-          inv => inv.color === item.color && inv.size === item.size
-        );
-        if (inventoryItem) {
-          inventoryItem.stock += item.quantity;
-          await product.save();
-        }
-      }
-    }
-
     res.json({
       success: true,
       message: 'Order cancelled successfully',
@@ -2,28 +2,17 @@ import express, { Request, Response } from 'express';
 import crypto from 'crypto';
 import { razorpayInstance as razorpay } from '../config/razorpay.js';
 import { Order } from '../models/Order.js';
-import { Product } from '../models/Product.js';
-import { User } from '../models/User.js';
+import { requireAuth, denyImpersonation, AuthenticatedRequest } from '../middleware/auth.js';
 import { sendEmail } from '../config/ses.js';
+import { deductOrderStock, restoreOrderStock } from '../services/orderStockService.js';
 
 const router = express.Router();
 
-// Middleware to check authentication
-const requireAuth = (req: Request, res: Response, next: Function) => {
-  if (!req.session?.user?.userId) {
-    return res.status(401).json({ 
-      success: false,
-      error: 'Authentication required' 
-    });
-  }
-  next();
-};
-
 /**
  * POST /api/payment/create-order
  * Create Razorpay order for payment
  */
-router.post('/create-order', requireAuth, async (req: Request, res: Response) => {
+router.post('/create-order', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { orderId } = req.body;
 
@@ -34,14 +23,7 @@ router.post('/create-order', requireAuth, async (req: Request, res: Response) =>
       });
     }
 
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     // Find the order
     const order = await Order.findById(orderId);
@@ -114,7 +96,7 @@ router.post('/create-order', requireAuth, async (req: Request, res: Response) =>
  * POST /api/payment/verify
  * Verify Razorpay payment signature
  */
-router.post('/verify', requireAuth, async (req: Request, res: Response) => {
+router.post('/verify', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const {
       razorpay_order_id,
@@ -130,14 +112,7 @@ router.post('/verify', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     // Find the order
     const order = await Order.findById(orderId).populate('user', 'email name');
@@ -171,6 +146,14 @@ router.post('/verify', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
+    // The customer has paid, so the order stands even if something sold out
+    // meanwhile - flag it for staff to restock or refund the short items
+    const shortItems = await deductOrderStock(order);
+    if (shortItems.length > 0) {
+      order.stockShortfall = true;
+      console.warn(`⚠️  Insufficient stock for ${shortItems.map(item => item.sku).join(', ')} on paid order ${order.orderNumber}`);
+    }
+
     // Update order payment status
     order.payment.razorpayPaymentId = razorpay_payment_id;
     order.payment.status = 'completed';
@@ -179,14 +162,6 @@ router.post('/verify', requireAuth, async (req: Request, res: Response) => {
     order.orderStatus = 'confirmed';
     await order.save();
 
-    // Update product stock
-    for (const item of order.items) {
-      const product = await Product.findById(item.product);
-      if (product) {
-        await product.updateStock(item.color, item.size, item.quantity);
-      }
-    }
-
     // Send order confirmation email
     const userEmail = (order.user as any).email;
     const userName = (order.user as any).name || 'Customer';
@@ -266,7 +241,7 @@ router.post('/webhook', express.raw({ type: 'application/json' }), async (req: R
  * POST /api/payment/cod
  * Process Cash on Delivery order
  */
-router.post('/cod', requireAuth, async (req: Request, res: Response) => {
+router.post('/cod', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { orderId } = req.body;
 
@@ -277,14 +252,7 @@ router.post('/cod', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Get MongoDB user
-    const mongoUser = await User.findOne({ email: req.session.user!.email.toLowerCase() });
-    if (!mongoUser) {
-      return res.status(404).json({ 
-        success: false,
-        error: 'User not found' 
-      });
-    }
+    const mongoUser = req.mongoUser!;
 
     // Find the order
     const order = await Order.findById(orderId).populate('user', 'email name');
@@ -312,6 +280,17 @@ router.post('/cod', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
+    // Nothing has been paid yet, so don't confirm an order we can't fill
+    const shortItems = await deductOrderStock(order);
+    if (shortItems.length > 0) {
+      await restoreOrderStock(order);
+      await order.save();
+      return res.status(400).json({
+        success: false,
+        error: `Sorry, there isn't enough stock left for: ${shortItems.map(item => `${item.productName} (${item.color}, ${item.size})`).join(', ')}`
+      });
+    }
+
     // Update order for COD
     order.payment = {
       method: 'cod',
@@ -321,14 +300,6 @@ router.post('/cod', requireAuth, async (req: Request, res: Response) => {
     order.orderStatus = 'confirmed';
     await order.save();
 
-    // Update product stock
-    for (const item of order.items) {
-      const product = await Product.findById(item.product);
-      if (product) {
-        await product.updateStock(item.color, item.size, item.quantity);
-      }
-    }
-
     // Send order confirmation email
     const userEmail = (order.user as any).email;
     const userName = (order.user as any).name || 'Customer';
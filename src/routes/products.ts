@@ -1,50 +1,34 @@
 import express, { Request, Response } from 'express';
 import { Product } from '../models/Product.js';
+import { findCategory, getCategoryWithDescendantIds } from '../services/categoryService.js';
+import { buildProductFilters, combineFacetFilters } from '../services/productFilters.js';
+import { getProductFacets } from '../services/productFacets.js';
 
 const router = express.Router();
 
 /**
  * GET /api/products
  * Get all products with filtering, sorting, and pagination
+ * Filters: category, color, size, minPrice, maxPrice, inStock, onSale, search
+ * Multi-select filters take comma separated values (color=Rainbow,Blue Spiral)
+ * facets=true adds counts per category, color, size, price and stock status
+ * Sort: any product field, e.g. -ratingAverage for the best reviewed first
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
     const {
       page = 1,
       limit = 12,
-      category,
-      color,
-      size,
-      minPrice,
-      maxPrice,
-      search,
+      facets,
       sort = '-createdAt'
     } = req.query;
 
     // Build filter query
-    const filter: any = { isActive: true };
-
-    if (category) {
-      filter.category = category;
-    }
-
-    if (color) {
-      filter.colors = color;
-    }
-
-    if (size) {
-      filter.sizes = size;
-    }
-
-    if (minPrice || maxPrice) {
-      filter.price = {};
-      if (minPrice) filter.price.$gte = Number(minPrice);
-      if (maxPrice) filter.price.$lte = Number(maxPrice);
-    }
-
-    if (search) {
-      filter.$text = { $search: search as string };
-    }
+    const productFilters = await buildProductFilters(req.query);
+    const filter = {
+      ...productFilters.baseFilter,
+      ...combineFacetFilters(productFilters.filters)
+    };
 
     // Calculate pagination
     const skip = (Number(page) - 1) * Number(limit);
@@ -55,7 +39,8 @@ router.get('/', async (req: Request, res: Response) => {
         .sort(sort as string)
         .skip(skip)
         .limit(Number(limit))
-        .select('-inventory'),
+        .select('-variants')
+        .populate('category', 'name slug'),
       Product.countDocuments(filter)
     ]);
 
@@ -63,6 +48,7 @@ router.get('/', async (req: Request, res: Response) => {
       success: true,
       data: {
         products,
+        ...(facets === 'true' && { facets: await getProductFacets(productFilters) }),
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -88,7 +74,8 @@ router.get('/:slug', async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
 
-    const product = await Product.findOne({ slug, isActive: true });
+    const product = await Product.findOne({ slug, isActive: true })
+      .populate('category', 'name slug parent');
 
     if (!product) {
       return res.status(404).json({
@@ -113,16 +100,17 @@ router.get('/:slug', async (req: Request, res: Response) => {
 /**
  * GET /api/products/:id/check-stock
  * Check stock availability for a specific variant
+ * Query: variantId (or color and size), quantity
  */
 router.get('/:id/check-stock', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { color, size, quantity = 1 } = req.query;
+    const { variantId, color, size, quantity = 1 } = req.query;
 
-    if (!color || !size) {
+    if (!variantId && (!color || !size)) {
       return res.status(400).json({
         success: false,
-        error: 'Color and size are required'
+        error: 'Variant ID, or color and size, are required'
       });
     }
 
@@ -135,23 +123,29 @@ router.get('/:id/check-stock', async (req: Request, res: Response) => {
       });
     }
 
-    const available = await product.checkStock(
-      color as string,
-      size as string,
-      Number(quantity)
-    );
+    const variant = product.resolveVariant({
+      variantId: variantId as string | undefined,
+      color: color as string | undefined,
+      size: size as string | undefined,
+    });
 
-    // Get actual stock quantity
-    const inventoryItem = product.inventory.find(
-      item => item.color === color && item.size === size
-    );
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        error: 'Variant not found'
+      });
+    }
+
+    const available = product.checkStock(variant._id, Number(quantity));
 
     res.json({
       success: true,
       data: {
         available,
-        quantity: inventoryItem?.stock || 0,
-        sku: inventoryItem?.sku || null
+        variantId: variant._id,
+        quantity: variant.isActive ? variant.stock : 0,
+        sku: variant.sku,
+        price: product.priceFor(variant)
       }
     });
   } catch (error) {
@@ -165,27 +159,42 @@ router.get('/:id/check-stock', async (req: Request, res: Response) => {
 
 /**
  * GET /api/products/category/:category
- * Get products by category
+ * Get products in a category (by slug) and its subcategories
  */
 router.get('/category/:category', async (req: Request, res: Response) => {
   try {
-    const { category } = req.params;
     const { page = 1, limit = 12, sort = '-createdAt' } = req.query;
 
+    const category = await findCategory(req.params.category);
+
+    if (!category || !category.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+    }
+
+    const filter = {
+      category: { $in: await getCategoryWithDescendantIds(category._id, { activeOnly: true }) },
+      isActive: true
+    };
+
     const skip = (Number(page) - 1) * Number(limit);
 
     const [products, total] = await Promise.all([
-      Product.find({ category, isActive: true })
+      Product.find(filter)
         .sort(sort as string)
         .skip(skip)
         .limit(Number(limit))
-        .select('-inventory'),
-      Product.countDocuments({ category, isActive: true })
+        .select('-variants')
+        .populate('category', 'name slug'),
+      Product.countDocuments(filter)
     ]);
 
     res.json({
       success: true,
       data: {
+        category,
         products,
         pagination: {
           page: Number(page),
@@ -0,0 +1,186 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Review } from '../models/Review.js';
+import { requireAuth, denyImpersonation, AuthenticatedRequest } from '../middleware/auth.js';
+import { createReview, deleteReview, validateReviewInput, ReviewError } from '../services/reviewService.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/reviews/product/:productId
+ * Get approved reviews for a product with the rating breakdown
+ */
+router.get('/product/:productId', async (req: Request, res: Response) => {
+  try {
+    const { productId } = req.params;
+    const { page = 1, limit = 10, sort = '-createdAt', verified } = req.query;
+
+    if (!mongoose.isValidObjectId(productId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const filter: any = { product: productId, status: 'approved' };
+    if (verified === 'true') {
+      filter.isVerifiedPurchase = true;
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [reviews, total, breakdown] = await Promise.all([
+      Review.find(filter)
+        .sort(sort as string)
+        .skip(skip)
+        .limit(Number(limit))
+        .select('-order -moderatedBy -moderationNote')
+        .populate('user', 'name'),
+      Review.countDocuments(filter),
+      Review.aggregate([
+        { $match: { product: new mongoose.Types.ObjectId(productId), status: 'approved' } },
+        { $group: { _id: '$rating', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    // Counts for every star, including ones nobody gave
+    const ratings = [5, 4, 3, 2, 1].map(rating => ({
+      rating,
+      count: breakdown.find(group => group._id === rating)?.count || 0
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        reviews,
+        ratings,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reviews'
+    });
+  }
+});
+
+/**
+ * GET /api/reviews/mine
+ * Get the current user's reviews, including ones awaiting moderation
+ */
+router.get('/mine', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const reviews = await Review.find({ user: req.mongoUser!._id })
+      .sort({ createdAt: -1 })
+      .select('-moderatedBy')
+      .populate('product', 'name slug images');
+
+    res.json({
+      success: true,
+      data: { reviews }
+    });
+  } catch (error) {
+    console.error('Error fetching user reviews:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reviews'
+    });
+  }
+});
+
+/**
+ * POST /api/reviews
+ * Review a product from a delivered order. Reviews are shown once approved.
+ * Body: { productId, rating, title, body, photos? }
+ */
+router.post('/', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { productId, rating, title, body, photos } = req.body;
+
+    if (!productId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Product ID is required'
+      });
+    }
+
+    const validationError = validateReviewInput({ rating, title, body, photos });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    let review;
+    try {
+      review = await createReview(String(req.mongoUser!._id), String(productId), { rating, title, body, photos });
+    } catch (error) {
+      // Anything other than a problem with the request is a 500
+      if (!(error instanceof ReviewError)) {
+        throw error;
+      }
+
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { review },
+      message: 'Thanks for your review! It will appear once it has been approved.'
+    });
+  } catch (error) {
+    console.error('Error creating review:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create review'
+    });
+  }
+});
+
+/**
+ * DELETE /api/reviews/:id
+ * Delete one of the current user's reviews
+ */
+router.delete('/:id', requireAuth, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Review not found'
+      });
+    }
+
+    try {
+      await deleteReview(req.params.id, String(req.mongoUser!._id));
+    } catch (error: any) {
+      return res.status(404).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Review deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete review'
+    });
+  }
+});
+
+export default router;
@@ -1,7 +1,8 @@
 import express from 'express';
 import multer from 'multer';
 import { uploadMultipleImages } from '../config/s3.js';
-import { requireAuth, requireAdmin } from '../middleware/auth.js';
+import { requireAuthOrApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { recordAudit } from '../services/auditService.js';
 
 const router = express.Router();
 
@@ -33,7 +34,7 @@ const upload = multer({
  * Upload multiple product images to S3
  * 
  * Requirements:
- * - Admin authentication required
+ * - uploads:create permission required
  * - Maximum 10 images per request
  * - Maximum 5MB per image
  * - Only image files accepted (jpg, png, webp, etc.)
@@ -46,8 +47,8 @@ const upload = multer({
  */
 router.post(
   '/images',
-  requireAuth,
-  requireAdmin,
+  requireAuthOrApiKey,
+  requirePermission('uploads:create'),
   upload.array('images', 10), // Max 10 images
   async (req, res) => {
     try {
@@ -74,6 +75,12 @@ router.post(
 
       console.log(`✅ Successfully uploaded ${urls.length} images to S3`);
 
+      await recordAudit(req as AuthenticatedRequest, {
+        action: 'upload.images',
+        targetType: 'upload',
+        metadata: { urls },
+      });
+
       res.json({
         success: true,
         urls,
@@ -95,8 +102,8 @@ router.post(
  */
 router.post(
   '/image',
-  requireAuth,
-  requireAdmin,
+  requireAuthOrApiKey,
+  requirePermission('uploads:create'),
   upload.single('image'),
   async (req, res) => {
     try {
@@ -123,6 +130,12 @@ router.post(
 
       console.log(`✅ Successfully uploaded image to S3: ${urls[0]}`);
 
+      await recordAudit(req as AuthenticatedRequest, {
+        action: 'upload.image',
+        targetType: 'upload',
+        metadata: { urls },
+      });
+
       res.json({
         success: true,
         url: urls[0],
@@ -0,0 +1,409 @@
+import express, { Response } from 'express';
+import { IAddress, IUser } from '../models/User.js';
+import { requireAuth, denyImpersonation, AuthenticatedRequest } from '../middleware/auth.js';
+import { validateAddress, sanitizeAddress, isValidPhone } from '../utils/validation.js';
+import { getUserDetails, requestEmailChange, verifyUserPhone } from '../services/authService.js';
+import { requestOtp, normalizePhone } from '../services/otpService.js';
+import { exportUserData, deleteUserAccount } from '../services/accountDataService.js';
+
+const router = express.Router();
+
+// All user routes require authentication
+router.use(requireAuth as any);
+
+const ADDRESS_TYPES: IAddress['type'][] = ['shipping', 'billing'];
+
+/**
+ * Make sure exactly one address per type is the default.
+ * The preferred address wins; otherwise the first address of that type is used.
+ */
+function normalizeDefaults(user: IUser, type: IAddress['type'], preferredId?: string) {
+  const addressesOfType = user.addresses.filter(address => address.type === type);
+  if (addressesOfType.length === 0) return;
+
+  const defaultId = preferredId
+    || String((addressesOfType.find(address => address.isDefault) || addressesOfType[0])._id);
+
+  addressesOfType.forEach(address => {
+    address.isDefault = String(address._id) === defaultId;
+  });
+}
+
+/**
+ * PATCH /api/users/me
+ * Update profile (name, phone). An email change is only applied once the
+ * new address is confirmed through the verification link.
+ * Body: { name?, phone?, email?, currentPassword?, twoFactorCode?, phoneCode? }
+ * Changing the email needs currentPassword. Accounts without a password use
+ * twoFactorCode if 2FA is on, else phoneCode from /me/phone/send-code if the
+ * phone is verified, else must have signed in within the last 10 minutes.
+ */
+router.patch('/me', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.mongoUser!;
+    const { name, phone, email, currentPassword, twoFactorCode, phoneCode } = req.body;
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Name cannot be empty'
+        });
+      }
+      user.name = name.trim();
+    }
+
+    if (phone !== undefined) {
+      if (phone && !isValidPhone(phone)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid phone number format. Use +919876543210 or 9876543210'
+        });
+      }
+      const newPhone = phone ? String(phone).replace(/\s+/g, '') : undefined;
+
+      // A new number has to be verified again before it can be used to log in
+      if (!newPhone || !user.phone || normalizePhone(newPhone) !== normalizePhone(user.phone)) {
+        user.isPhoneVerified = false;
+      }
+      user.phone = newPhone;
+    }
+
+    // Before saving anything else, so a failed re-authentication changes nothing
+    let emailChangeRequested = false;
+    if (email && email.toLowerCase().trim() !== user.email) {
+      await requestEmailChange(
+        String(user._id),
+        email,
+        { currentPassword, twoFactorCode, phoneCode },
+        req.user!.sessionId
+      );
+      emailChangeRequested = true;
+    }
+
+    await user.save();
+
+    res.json({
+      success: true,
+      message: emailChangeRequested
+        ? 'Profile updated. Please confirm your new email address using the link we sent to it.'
+        : 'Profile updated successfully',
+      user: await getUserDetails(String(user._id))
+    });
+  } catch (error: any) {
+    console.error('Error updating profile:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to update profile'
+    });
+  }
+});
+
+/**
+ * POST /api/users/me/phone/send-code
+ * Text a code to the phone number on the profile, to verify it or, once
+ * verified, to confirm an email change or account deletion
+ */
+router.post('/me/phone/send-code', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.mongoUser!;
+
+    if (!user.phone) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please add a phone number to your profile first'
+      });
+    }
+
+    const result = await requestOtp(user.phone, req.ip);
+
+    if (!result.sent) {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: 'Please wait before requesting another code',
+        retryAfter: result.retryAfterSeconds
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Verification code sent',
+      retryAfter: result.retryAfterSeconds
+    });
+  } catch (error: any) {
+    console.error('Error sending phone verification code:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send verification code'
+    });
+  }
+});
+
+/**
+ * POST /api/users/me/phone/verify
+ * Confirm the phone number on the profile with the texted code
+ * Body: { code }
+ */
+router.post('/me/phone/verify', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Code is required'
+      });
+    }
+
+    await verifyUserPhone(req.user!.userId, String(code));
+
+    res.json({
+      success: true,
+      message: 'Phone number verified',
+      user: await getUserDetails(req.user!.userId)
+    });
+  } catch (error: any) {
+    console.error('Error verifying phone:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to verify phone number'
+    });
+  }
+});
+
+/**
+ * GET /api/users/me/export
+ * Download everything we hold about the user (profile, addresses, cart, orders) as JSON
+ */
+router.get('/me/export', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const archive = await exportUserData(req.user!.userId);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Disposition', `attachment; filename="mama-dye-dreams-data-${date}.json"`);
+    res.json({
+      success: true,
+      data: archive
+    });
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export your data'
+    });
+  }
+});
+
+/**
+ * DELETE /api/users/me
+ * Delete the account: personal data is anonymised (including the addresses
+ * on past orders) and every device is signed out. Order totals are kept.
+ * Body: { password?, twoFactorCode?, phoneCode? }
+ * Needs password. Accounts without a password use twoFactorCode if 2FA is on,
+ * else phoneCode from /me/phone/send-code if the phone is verified, else must
+ * have signed in within the last 10 minutes.
+ */
+router.delete('/me', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { password, twoFactorCode, phoneCode } = req.body || {};
+    await deleteUserAccount(
+      req.user!.userId,
+      { currentPassword: password, twoFactorCode, phoneCode },
+      req.user!.sessionId
+    );
+
+    req.session.destroy((err) => {
+      if (err) {
+        console.error('Session destroy error:', err);
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Your account has been deleted'
+    });
+  } catch (error: any) {
+    console.error('Error deleting account:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to delete account'
+    });
+  }
+});
+
+/**
+ * GET /api/users/me/addresses
+ * List saved addresses
+ */
+router.get('/me/addresses', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: { addresses: req.mongoUser!.addresses }
+    });
+  } catch (error) {
+    console.error('Error fetching addresses:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch addresses'
+    });
+  }
+});
+
+/**
+ * POST /api/users/me/addresses
+ * Add an address to the address book
+ */
+router.post('/me/addresses', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.mongoUser!;
+    const { type = 'shipping', isDefault = false } = req.body;
+
+    if (!ADDRESS_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Address type must be shipping or billing'
+      });
+    }
+
+    const addressError = validateAddress(req.body);
+    if (addressError) {
+      return res.status(400).json({
+        success: false,
+        error: addressError
+      });
+    }
+
+    user.addresses.push({
+      ...sanitizeAddress(req.body),
+      type,
+      isDefault: Boolean(isDefault)
+    });
+
+    const address = user.addresses[user.addresses.length - 1];
+    normalizeDefaults(user, type, address.isDefault ? String(address._id) : undefined);
+    await user.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Address added successfully',
+      data: { address, addresses: user.addresses }
+    });
+  } catch (error) {
+    console.error('Error adding address:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add address'
+    });
+  }
+});
+
+/**
+ * PUT /api/users/me/addresses/:addressId
+ * Update a saved address
+ */
+router.put('/me/addresses/:addressId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.mongoUser!;
+    const address = user.addresses.find(a => String(a._id) === req.params.addressId);
+
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        error: 'Address not found'
+      });
+    }
+
+    const { type = address.type, isDefault = address.isDefault } = req.body;
+
+    if (!ADDRESS_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Address type must be shipping or billing'
+      });
+    }
+
+    // Allow partial updates, validate the merged result
+    const merged = {
+      fullName: address.fullName,
+      phone: address.phone,
+      addressLine1: address.addressLine1,
+      addressLine2: address.addressLine2,
+      city: address.city,
+      state: address.state,
+      pincode: address.pincode,
+      ...req.body
+    };
+
+    const addressError = validateAddress(merged);
+    if (addressError) {
+      return res.status(400).json({
+        success: false,
+        error: addressError
+      });
+    }
+
+    const previousType = address.type;
+    Object.assign(address, sanitizeAddress(merged), { type, isDefault: Boolean(isDefault) });
+    if (!merged.addressLine2) {
+      address.addressLine2 = undefined;
+    }
+
+    normalizeDefaults(user, type, address.isDefault ? String(address._id) : undefined);
+    if (previousType !== type) {
+      normalizeDefaults(user, previousType);
+    }
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Address updated successfully',
+      data: { address, addresses: user.addresses }
+    });
+  } catch (error) {
+    console.error('Error updating address:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update address'
+    });
+  }
+});
+
+/**
+ * DELETE /api/users/me/addresses/:addressId
+ * Remove a saved address
+ */
+router.delete('/me/addresses/:addressId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.mongoUser!;
+    const address = user.addresses.find(a => String(a._id) === req.params.addressId);
+
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        error: 'Address not found'
+      });
+    }
+
+    user.addresses = user.addresses.filter(a => String(a._id) !== req.params.addressId);
+
+    // Promote another address if the default was removed
+    normalizeDefaults(user, address.type);
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Address removed successfully',
+      data: { addresses: user.addresses }
+    });
+  } catch (error) {
+    console.error('Error removing address:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove address'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,189 @@
+import { User } from '../models/User.js';
+import { Cart } from '../models/Cart.js';
+import { Order } from '../models/Order.js';
+import { UserSession } from '../models/UserSession.js';
+import { Review } from '../models/Review.js';
+import { RefreshToken } from '../models/RefreshToken.js';
+import { OtpCode } from '../models/OtpCode.js';
+import { revokeUserSessions, verifyReauthentication, ReauthCredentials } from './authService.js';
+import { phoneVariants } from './otpService.js';
+import { unlockAccount } from './loginThrottleService.js';
+import { refreshProductRating } from './reviewService.js';
+
+const DELETED_NAME = 'Deleted User';
+const REDACTED = 'REDACTED';
+
+// Orders still being fulfilled need a real delivery address
+const OPEN_ORDER_STATUSES = ['confirmed', 'processing', 'shipped', 'out-for-delivery', 'return-requested'];
+
+/**
+ * Everything we hold about a customer, as a JSON archive (DPDP data access request)
+ */
+export async function exportUserData(userId: string) {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [cart, orders, sessions, reviews] = await Promise.all([
+    Cart.findOne({ user: user._id }).populate('items.product', 'name slug'),
+    Order.find({ user: user._id }).sort({ createdAt: -1 }),
+    UserSession.find({ user: user._id }).sort({ createdAt: -1 }),
+    Review.find({ user: user._id }).sort({ createdAt: -1 }).populate('product', 'name slug'),
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: {
+      userId: String(user._id),
+      email: user.email,
+      pendingEmail: user.pendingEmail,
+      isEmailVerified: user.isEmailVerified,
+      name: user.name,
+      phone: user.phone,
+      isPhoneVerified: user.isPhoneVerified,
+      role: user.role,
+      twoFactorEnabled: user.twoFactorEnabled,
+      linkedAccounts: user.oidcIdentities.map(identity => ({
+        provider: identity.provider,
+        linkedAt: identity.linkedAt,
+      })),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    addresses: user.addresses,
+    cart: cart
+      ? {
+          items: cart.items,
+          subtotal: cart.subtotal,
+          updatedAt: cart.updatedAt,
+        }
+      : null,
+    orders: orders.map(order => order.toObject()),
+    reviews: reviews.map(review => ({
+      product: review.product,
+      rating: review.rating,
+      title: review.title,
+      body: review.body,
+      photos: review.photos,
+      status: review.status,
+      createdAt: review.createdAt,
+    })),
+    sessions: sessions.map(session => ({
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      revokedAt: session.revokedAt,
+    })),
+  };
+}
+
+/**
+ * Delete a customer account (DPDP erasure request).
+ * The user document is kept, anonymised, so past orders still resolve; the
+ * address snapshots on those orders are redacted but their totals are kept
+ * for accounting. It can't be undone, so the user has to re-authenticate
+ * (see verifyReauthentication).
+ */
+export async function deleteUserAccount(userId: string, credentials: ReauthCredentials = {}, sessionId?: string) {
+  const user = await User.findById(userId).select('+password +salt');
+
+  if (!user || user.deletedAt) {
+    throw new Error('User not found');
+  }
+
+  await verifyReauthentication(user, credentials, sessionId);
+
+  const openOrders = await Order.countDocuments({
+    user: user._id,
+    orderStatus: { $in: OPEN_ORDER_STATUSES },
+  });
+
+  if (openOrders > 0) {
+    throw new Error('You have orders that are still being processed. Please try again once they are delivered or cancelled.');
+  }
+
+  const { email, phone } = user;
+
+  // Sign out every device before the identifiers disappear
+  await revokeUserSessions(userId);
+
+  // Keep city and state (place of supply for tax records), drop the rest
+  const redactedAddress = (path: string) => ({
+    [`${path}.fullName`]: DELETED_NAME,
+    [`${path}.phone`]: REDACTED,
+    [`${path}.addressLine1`]: REDACTED,
+    [`${path}.pincode`]: REDACTED,
+  });
+
+  await Order.updateMany(
+    { user: user._id },
+    {
+      $set: {
+        ...redactedAddress('shippingAddress'),
+        ...redactedAddress('billingAddress'),
+      },
+      $unset: {
+        'shippingAddress.addressLine2': 1,
+        'billingAddress.addressLine2': 1,
+        notes: 1,
+      },
+    }
+  );
+
+  // Reviews are the customer's own words - remove them and recount the ratings
+  const reviewedProducts = await Review.distinct('product', { user: user._id });
+
+  await Promise.all([
+    Review.deleteMany({ user: user._id }),
+    Cart.deleteOne({ user: user._id }),
+    UserSession.deleteMany({ user: user._id }),
+    RefreshToken.deleteMany({ user: user._id }),
+    unlockAccount(email),
+    phone ? OtpCode.deleteMany({ phone: { $in: phoneVariants(phone) } }) : Promise.resolve(),
+  ]);
+
+  await Promise.all(reviewedProducts.map(productId => refreshProductRating(productId)));
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        email: `deleted-${user._id}@deleted.invalid`,
+        name: DELETED_NAME,
+        addresses: [],
+        oidcIdentities: [],
+        role: 'customer',
+        isEmailVerified: false,
+        isPhoneVerified: false,
+        isDisabled: true,
+        disabledAt: new Date(),
+        disabledReason: 'Account deleted by the user',
+        deletedAt: new Date(),
+        twoFactorEnabled: false,
+      },
+      $unset: {
+        phone: 1,
+        password: 1,
+        salt: 1,
+        cognitoId: 1,
+        pendingEmail: 1,
+        emailVerificationToken: 1,
+        emailVerificationExpires: 1,
+        passwordResetToken: 1,
+        passwordResetExpires: 1,
+        twoFactorEnabledAt: 1,
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorLastUsedStep: 1,
+        twoFactorRecoveryCodes: 1,
+      },
+    }
+  );
+
+  console.log(`🗑️  Deleted account ${userId}`);
+
+  return { success: true };
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { ApiKey, IApiKey } from '../models/ApiKey.js';
+import { User } from '../models/User.js';
+import { API_KEY_PERMISSIONS, Permission, hasPermission } from '../config/permissions.js';
+
+const API_KEY_PATTERN = /^mdd_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+const LAST_USED_INTERVAL_MS = 60 * 1000; // Avoid a write on every request
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a scoped API key. The plain key is returned once and never stored.
+ */
+export async function createApiKey(options: {
+  name: string;
+  permissions: string[];
+  createdBy: string;
+  expiresAt?: Date;
+}) {
+  const invalid = options.permissions.filter(
+    permission => !API_KEY_PERMISSIONS.includes(permission as Permission)
+  );
+  if (invalid.length > 0) {
+    throw new Error(`Invalid permission: ${invalid.join(', ')}`);
+  }
+
+  if (options.permissions.length === 0) {
+    throw new Error('At least one permission is required');
+  }
+
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const key = `mdd_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await ApiKey.create({
+    name: options.name,
+    prefix,
+    keyHash: hashKey(key),
+    permissions: [...new Set(options.permissions)],
+    createdBy: options.createdBy,
+    expiresAt: options.expiresAt,
+  });
+
+  // keyHash is select: false - keep it out of the response here too
+  const { keyHash: _keyHash, ...apiKeyData } = apiKey.toObject();
+
+  return { apiKey: apiKeyData, key };
+}
+
+/**
+ * Resolve the API key presented by a client. Keys act on behalf of the staff
+ * member who created them, so they stop working once that person is disabled,
+ * deleted or no longer allowed to manage keys.
+ * @throws If the key is malformed, unknown, revoked or expired, or its creator lost access
+ */
+export async function authenticateApiKey(key: string, ip?: string): Promise<IApiKey> {
+  const match = API_KEY_PATTERN.exec(key.trim());
+  if (!match) {
+    throw new Error('Invalid API key');
+  }
+
+  const apiKey = await ApiKey.findOne({ prefix: match[1] }).select('+keyHash');
+  if (!apiKey) {
+    throw new Error('Invalid API key');
+  }
+
+  const expected = Buffer.from(apiKey.keyHash, 'hex');
+  const actual = Buffer.from(hashKey(key.trim()), 'hex');
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid API key');
+  }
+
+  if (apiKey.revokedAt) {
+    throw new Error('API key has been revoked');
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+    throw new Error('API key has expired');
+  }
+
+  const creator = await User.findById(apiKey.createdBy).select('role isDisabled deletedAt');
+  if (!creator || creator.isDisabled || creator.deletedAt || !hasPermission(creator.role, 'api-keys:manage')) {
+    throw new Error('API key is no longer valid');
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+    await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(), lastUsedIp: ip });
+  }
+
+  return apiKey;
+}
+
+/**
+ * Revoke a key. Requests using it are rejected immediately.
+ */
+export async function revokeApiKey(id: string, revokedBy: string) {
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { _id: id, revokedAt: { $exists: false } },
+    { revokedAt: new Date(), revokedBy },
+    { new: true }
+  );
+
+  if (!apiKey) {
+    throw new Error('API key not found or already revoked');
+  }
+
+  return apiKey;
+}
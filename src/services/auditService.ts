@@ -0,0 +1,72 @@
+import { AuditLog, IAuditChange } from '../models/AuditLog.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+
+// Bookkeeping fields that change on every save
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId?: unknown;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Field-level diff between two snapshots (top-level fields only)
+ */
+export function diffSnapshots(
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null
+): Record<string, IAuditChange> {
+  const beforeObj = JSON.parse(JSON.stringify(before || {}));
+  const afterObj = JSON.parse(JSON.stringify(after || {}));
+  const fields = new Set([...Object.keys(beforeObj), ...Object.keys(afterObj)]);
+  const diff: Record<string, IAuditChange> = {};
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    if (JSON.stringify(beforeObj[field]) !== JSON.stringify(afterObj[field])) {
+      diff[field] = { before: beforeObj[field] ?? null, after: afterObj[field] ?? null };
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Plain snapshot of a mongoose document (or null)
+ */
+export function snapshot(doc: any): Record<string, any> | null {
+  if (!doc) return null;
+  return typeof doc.toObject === 'function' ? doc.toObject() : { ...doc };
+}
+
+/**
+ * Append an audit log entry for the request's actor.
+ * Never throws - a failed audit write must not fail the admin action.
+ */
+export async function recordAudit(req: AuthenticatedRequest, entry: AuditEntry) {
+  // While impersonating, the admin is the actor and the customer is recorded alongside
+  const impersonator = req.user?.impersonator;
+
+  try {
+    await AuditLog.create({
+      actor: req.apiKey ? req.apiKey.createdBy : (impersonator?.userId || req.user?.userId),
+      actorEmail: impersonator?.email || req.user?.email || 'unknown',
+      actorRole: impersonator?.role || req.user?.role,
+      apiKey: req.apiKey?._id,
+      impersonatedUser: impersonator ? req.user?.userId : undefined,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId !== undefined ? String(entry.targetId) : undefined,
+      diff: diffSnapshots(entry.before, entry.after),
+      metadata: entry.metadata,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
@@ -1,25 +1,110 @@
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { User } from '../models/User.js';
+import mongoose from 'mongoose';
+import { User, IUser } from '../models/User.js';
+import { RefreshToken } from '../models/RefreshToken.js';
+import { RevokedToken } from '../models/RevokedToken.js';
+import { UserSession } from '../models/UserSession.js';
+import { destroyStoredSession } from '../config/session.js';
+import { sendEmail } from '../config/ses.js';
+import { hashPassword, verifyPassword, needsRehash } from './passwordService.js';
+import { verifyOtp, phoneVariants } from './otpService.js';
+import { legacyIdentityProvider } from './legacyIdentityProvider.js';
+import { getRolePermissions, hasPermission } from '../config/permissions.js';
+import { verifySecondFactor } from './twoFactorService.js';
+import { OidcClaims } from './oidcProvider.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'mama-dye-dreams-secret-key-change-in-prod';
-const JWT_EXPIRES_IN = '30d'; // Long lived token (30 days) since we removed refresh token
+const JWT_EXPIRES_IN_SECONDS = 15 * 60; // Short lived access token, renewed with a refresh token
+const REFRESH_TOKEN_EXPIRES_MS = (Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30) * 24 * 60 * 60 * 1000;
+const EMAIL_VERIFICATION_URL = process.env.EMAIL_VERIFICATION_URL || 'http://localhost:8080/verify-email';
+const EMAIL_VERIFICATION_EXPIRES_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || 'http://localhost:8080/reset-password';
+const PASSWORD_RESET_EXPIRES_MS = 60 * 60 * 1000; // 1 hour
+const TWO_FACTOR_CHALLENGE_EXPIRES_SECONDS = 5 * 60;
+const IMPERSONATION_EXPIRES_SECONDS = (Number(process.env.IMPERSONATION_EXPIRES_MINUTES) || 15) * 60;
+const SESSION_LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000; // Avoid a write on every request
+const REAUTHENTICATION_MAX_AGE_MS = 10 * 60 * 1000; // How recent a sign in counts as re-authentication
 
 /**
- * Generate hash and salt for password
+ * Details about the device a login comes from
  */
-function hashPassword(password: string): { hash: string; salt: string } {
-  const salt = crypto.randomBytes(16).toString('hex');
-  const hash = crypto.pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex');
-  return { hash, salt };
+export interface ClientContext {
+  userAgent?: string;
+  ip?: string;
+  sessionId?: string; // express session id, if the client uses cookies
 }
 
 /**
- * Verify password against hash and salt
+ * Proof that the user is still the one holding the session, for sensitive changes
  */
-function verifyPassword(password: string, hash: string, salt: string): boolean {
-  const verifyHash = crypto.pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
+export interface ReauthCredentials {
+  currentPassword?: string;
+  twoFactorCode?: string;
+  phoneCode?: string; // texted to the verified phone number
+}
+
+/**
+ * Generate a random single-use token and the hash we persist for it
+ */
+function generateToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * Hash a token for storage/lookup (tokens are never stored in plain text)
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Sign a short lived access token for the user
+ */
+function signAccessToken(user: IUser, sessionId?: string): string {
+  return jwt.sign(
+    {
+      userId: user._id,
+      email: user.email,
+      role: user.role,
+      isAdmin: user.role === 'admin',
+      ver: user.tokenVersion || 0,
+      sid: sessionId
+    },
+    JWT_SECRET,
+    { expiresIn: JWT_EXPIRES_IN_SECONDS, jwtid: crypto.randomUUID() }
+  );
+}
+
+/**
+ * Create an opaque refresh token in the given family (the session id). Only its hash is stored.
+ */
+async function issueRefreshToken(userId: unknown, family: string): Promise<string> {
+  const { token, tokenHash } = generateToken();
+
+  await RefreshToken.create({
+    user: userId,
+    tokenHash,
+    family,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRES_MS)
+  });
+
+  return token;
+}
+
+/**
+ * Record a new login for the user's device
+ */
+async function startSession(user: IUser, context: ClientContext = {}) {
+  return UserSession.create({
+    user: user._id,
+    userAgent: context.userAgent,
+    ip: context.ip,
+    expressSessionId: context.sessionId,
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRES_MS)
+  });
 }
 
 /**
@@ -33,24 +118,30 @@ export async function signUp(email: string, password: string, name: string, phon
       throw new Error('User with this email already exists');
     }
 
-    const { hash, salt } = hashPassword(password);
+    const passwordHash = await hashPassword(password);
 
     const user = new User({
       email: email.toLowerCase(),
       name,
       phone: phoneNumber,
-      password: hash,
-      salt: salt,
-      isEmailVerified: true, // Auto-verify for simplicity as requested
+      password: passwordHash,
+      isEmailVerified: false,
       role: email.toLowerCase() === process.env.ADMIN_EMAIL?.toLowerCase() ? 'admin' : 'customer',
       addresses: []
     });
 
     await user.save();
 
+    // Don't fail the signup if SES is down - the user can request a new link
+    try {
+      await issueEmailVerification(user);
+    } catch (emailError) {
+      console.error('Error sending verification email:', emailError);
+    }
+
     return {
       success: true,
-      requiresConfirmation: false,
+      requiresConfirmation: true,
       user: {
         _id: user._id,
         email: user.email,
@@ -67,55 +158,394 @@ export async function signUp(email: string, password: string, name: string, phon
 /**
  * User sign in
  */
-export async function signIn(email: string, password: string) {
+export async function signIn(email: string, password: string, context?: ClientContext) {
   try {
-    const user = await User.findOne({ email: email.toLowerCase() }).select('+password +salt');
+    const user = await User.findOne({ email: email.toLowerCase() }).select('+password +salt +tokenVersion');
 
     if (!user) {
       throw new Error('Invalid email or password');
     }
 
-    // Check if user has password (might be old Cognito user)
-    if (!user.password || !user.salt) {
-      throw new Error('Please reset your password to login');
+    // No local password yet - old Cognito user
+    if (!user.password) {
+      if (!user.cognitoId || !legacyIdentityProvider) {
+        throw new Error('Please reset your password to login');
+      }
+
+      // Verify against the legacy provider once, then keep a local hash
+      const isValid = await legacyIdentityProvider.verifyCredentials(user.email, password);
+      if (!isValid) {
+        throw new Error('Invalid email or password');
+      }
+
+      user.password = await hashPassword(password);
+      user.salt = undefined;
+      user.migratedAt = new Date();
+      await user.save();
+      console.log(`✅ Migrated ${user.email} from ${legacyIdentityProvider.name}`);
+
+      return await completeSignIn(user, context);
     }
 
-    const isValid = verifyPassword(password, user.password, user.salt);
+    const isValid = await verifyPassword(password, user.password, user.salt);
 
     if (!isValid) {
       throw new Error('Invalid email or password');
     }
 
-    // Generate JWT
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        email: user.email,
-        role: user.role,
-        isAdmin: user.role === 'admin'
-      },
+    // Transparently upgrade legacy/outdated hashes now that we know the password
+    if (needsRehash(user.password)) {
+      user.password = await hashPassword(password);
+      user.salt = undefined;
+      await user.save();
+    }
+
+    return await completeSignIn(user, context);
+  } catch (error: any) {
+    console.error('Sign in error:', error);
+    throw new Error(error.message || 'Authentication failed');
+  }
+}
+
+/**
+ * Sign in (or sign up) with a phone number and a texted one-time code.
+ * Only accounts that verified the number can be signed into - anyone can
+ * type any number into their profile. New users must provide a name and
+ * email along with the code.
+ */
+export async function signInWithPhone(
+  phone: string,
+  code: string,
+  signupDetails?: { name?: string; email?: string },
+  context?: ClientContext
+) {
+  let user = await User.findOne({ phone: { $in: phoneVariants(phone) }, isPhoneVerified: true })
+    .sort({ createdAt: 1 })
+    .select('+tokenVersion');
+
+  // Check signup details before consuming the code
+  if (!user && (!signupDetails?.name || !signupDetails?.email)) {
+    throw new Error('No account found for this phone number. Please provide your name and email to sign up.');
+  }
+
+  const normalizedPhone = await verifyOtp(phone, code);
+
+  if (!user) {
+    const email = signupDetails!.email!.toLowerCase().trim();
+    const existingUser = await User.exists({ email });
+    if (existingUser) {
+      throw new Error('An account with this email already exists. Please login with your password and verify your phone number from your profile.');
+    }
+
+    user = new User({
+      email,
+      name: signupDetails!.name!.trim(),
+      phone: normalizedPhone,
+      isPhoneVerified: true,
+      isEmailVerified: false,
+      role: 'customer',
+      addresses: []
+    });
+    await user.save();
+
+    try {
+      await issueEmailVerification(user);
+    } catch (emailError) {
+      console.error('Error sending verification email:', emailError);
+    }
+  }
+
+  return completeSignIn(user, context);
+}
+
+/**
+ * Verify the phone number on a logged in user's profile with a texted code.
+ * A number can only be verified on one account.
+ */
+export async function verifyUserPhone(userId: string, code: string) {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!user.phone) {
+    throw new Error('Please add a phone number to your profile first');
+  }
+
+  if (user.isPhoneVerified) {
+    throw new Error('Your phone number is already verified');
+  }
+
+  const taken = await User.exists({
+    _id: { $ne: user._id },
+    phone: { $in: phoneVariants(user.phone) },
+    isPhoneVerified: true
+  });
+  if (taken) {
+    throw new Error('This phone number is already verified on another account');
+  }
+
+  user.phone = await verifyOtp(user.phone, code);
+  user.isPhoneVerified = true;
+  await user.save();
+
+  return { success: true, phone: user.phone };
+}
+
+/**
+ * Sign in (or sign up) with an external OpenID Connect account.
+ * Known identities sign straight in; otherwise the account is linked to the
+ * user with the same (provider verified) email, or a new user is created.
+ */
+export async function signInWithOidc(provider: string, claims: OidcClaims, context?: ClientContext) {
+  let user = await User.findOne({
+    oidcIdentities: { $elemMatch: { provider, subject: claims.sub } }
+  }).select('+tokenVersion');
+
+  if (!user) {
+    if (!claims.email || String(claims.email_verified) !== 'true') {
+      throw new Error('Your account email address has not been verified by the provider');
+    }
+
+    const email = claims.email.toLowerCase().trim();
+    user = await User.findOne({ email }).select('+tokenVersion');
+
+    if (user) {
+      // Nobody proved they own this address before, so a password set on it
+      // can't be trusted now that the real owner has shown up
+      if (!user.isEmailVerified) {
+        user.password = undefined;
+        user.salt = undefined;
+        user.isEmailVerified = true;
+        await user.save();
+        await revokeUserSessions(String(user._id));
+        user = await User.findById(user._id).select('+tokenVersion');
+      }
+    } else {
+      user = new User({
+        email,
+        name: claims.name || claims.given_name || email.split('@')[0],
+        isEmailVerified: true,
+        role: email === process.env.ADMIN_EMAIL?.toLowerCase() ? 'admin' : 'customer',
+        addresses: []
+      });
+    }
+
+    user!.oidcIdentities.push({ provider, subject: claims.sub, linkedAt: new Date() });
+    await user!.save();
+    console.log(`🔗 Linked ${provider} account to ${user!.email}`);
+  }
+
+  return completeSignIn(user!, context);
+}
+
+/**
+ * Finish a sign in whose first factor has been checked: users with 2FA
+ * get a short lived challenge token instead of session tokens
+ */
+async function completeSignIn(user: IUser, context?: ClientContext): Promise<AuthResult | TwoFactorChallenge> {
+  if (user.isDisabled) {
+    throw new Error('This account has been disabled. Please contact support.');
+  }
+
+  if (user.twoFactorEnabled) {
+    const twoFactorToken = jwt.sign(
+      { userId: user._id, email: user.email, purpose: '2fa' },
       JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
+      { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_SECONDS }
     );
 
-    // Return user without sensitive data
-    const userObj = user.toObject();
-    delete userObj.password;
-    delete userObj.salt;
-
     return {
       success: true,
-      accessToken: token,
-      user: {
-        ...userObj,
-        userId: (user._id as any).toString(), // Keep compatibility with frontend expecting userId
-        isAdmin: user.role === 'admin'
-      },
-      expiresIn: 30 * 24 * 60 * 60 // 30 days in seconds
+      requiresTwoFactor: true,
+      twoFactorToken,
+      expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_SECONDS
     };
-  } catch (error: any) {
-    console.error('Sign in error:', error);
-    throw new Error(error.message || 'Authentication failed');
+  }
+
+  return createAuthResult(user, context);
+}
+
+/**
+ * Read the email a 2FA challenge token was issued for (used for login throttling)
+ */
+export function getTwoFactorChallengeEmail(twoFactorToken: string): string | undefined {
+  const decoded = jwt.decode(twoFactorToken) as any;
+  return decoded?.purpose === '2fa' ? decoded.email : undefined;
+}
+
+/**
+ * Second step of a 2FA sign in: exchange the challenge token and an
+ * authenticator (or recovery) code for session tokens
+ */
+export async function verifyTwoFactorSignIn(twoFactorToken: string, code: string, context?: ClientContext) {
+  let decoded: any;
+  try {
+    decoded = jwt.verify(twoFactorToken, JWT_SECRET);
+  } catch {
+    throw new Error('Your login has expired. Please login again.');
+  }
+
+  if (decoded.purpose !== '2fa') {
+    throw new Error('Invalid two-factor token');
+  }
+
+  if (!await verifySecondFactor(decoded.userId, code)) {
+    throw new Error('Invalid authentication code');
+  }
+
+  const user = await User.findById(decoded.userId).select('+tokenVersion');
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return createAuthResult(user, context);
+}
+
+export type AuthResult = Awaited<ReturnType<typeof createAuthResult>>;
+
+export interface TwoFactorChallenge {
+  success: true;
+  requiresTwoFactor: true;
+  twoFactorToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Issue tokens for an authenticated user and build the sign in response
+ */
+async function createAuthResult(user: IUser, context?: ClientContext) {
+  if (user.isDisabled) {
+    throw new Error('This account has been disabled. Please contact support.');
+  }
+
+  // Generate access and refresh tokens bound to a new device session
+  const session = await startSession(user, context);
+  const sessionId = String(session._id);
+  const token = signAccessToken(user, sessionId);
+  const refreshToken = await issueRefreshToken(user._id, sessionId);
+
+  // Return user without sensitive data
+  const userObj: any = user.toObject();
+  delete userObj.password;
+  delete userObj.salt;
+  delete userObj.tokenVersion;
+
+  return {
+    success: true,
+    accessToken: token,
+    refreshToken,
+    user: {
+      ...userObj,
+      userId: (user._id as any).toString(), // Keep compatibility with frontend expecting userId
+      isAdmin: user.role === 'admin',
+      permissions: getRolePermissions(user.role)
+    },
+    expiresIn: JWT_EXPIRES_IN_SECONDS
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token and a rotated refresh token.
+ * Presenting a token that was already rotated revokes its whole family.
+ */
+export async function refreshSession(refreshToken: string) {
+  const tokenHash = hashToken(refreshToken);
+  const stored = await RefreshToken.findOne({ tokenHash });
+
+  if (!stored) {
+    throw new Error('Invalid refresh token');
+  }
+
+  if (stored.revokedAt) {
+    await revokeSession(stored.family);
+    console.warn(`⚠️  Refresh token reuse detected for user ${stored.user}, family ${stored.family} revoked`);
+    throw new Error('Refresh token has already been used. Please login again.');
+  }
+
+  if (stored.expiresAt <= new Date()) {
+    throw new Error('Refresh token has expired. Please login again.');
+  }
+
+  const user = await User.findById(stored.user).select('+tokenVersion');
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.isDisabled) {
+    throw new Error('This account has been disabled. Please contact support.');
+  }
+
+  // Families started before device sessions existed have no session document
+  const session = mongoose.isValidObjectId(stored.family)
+    ? await UserSession.findById(stored.family)
+    : null;
+
+  if (session?.revokedAt) {
+    throw new Error('This session has been signed out. Please login again.');
+  }
+
+  // Rotate atomically so two concurrent refreshes can't both succeed
+  const { token: nextToken, tokenHash: nextTokenHash } = generateToken();
+  const rotated = await RefreshToken.findOneAndUpdate(
+    { _id: stored._id, revokedAt: { $exists: false } },
+    { revokedAt: new Date(), replacedBy: nextTokenHash }
+  );
+
+  if (!rotated) {
+    await revokeSession(stored.family);
+    throw new Error('Refresh token has already been used. Please login again.');
+  }
+
+  await RefreshToken.create({
+    user: user._id,
+    tokenHash: nextTokenHash,
+    family: stored.family,
+    expiresAt: stored.expiresAt
+  });
+
+  if (session) {
+    session.lastSeenAt = new Date();
+    await session.save();
+  }
+
+  return {
+    success: true,
+    accessToken: signAccessToken(user, session ? stored.family : undefined),
+    refreshToken: nextToken,
+    expiresIn: JWT_EXPIRES_IN_SECONDS
+  };
+}
+
+/**
+ * Revoke every active refresh token in a family
+ */
+async function revokeTokenFamily(family: string) {
+  await RefreshToken.updateMany(
+    { family, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+}
+
+/**
+ * Sign a device out: its access tokens stop verifying, its refresh tokens
+ * are revoked and its cookie session (if any) is destroyed
+ */
+async function revokeSession(sessionId: string) {
+  await revokeTokenFamily(sessionId);
+
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return;
+  }
+
+  const session = await UserSession.findOneAndUpdate(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+
+  if (session?.expressSessionId) {
+    await destroyStoredSession(session.expressSessionId);
   }
 }
 
@@ -125,11 +555,64 @@ export async function signIn(email: string, password: string) {
 export async function verifyToken(token: string) {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+
+    // 2FA challenge tokens are signed with the same secret but grant no access
+    if (decoded.purpose) {
+      throw new Error('Not an access token');
+    }
+
+    if (decoded.jti && await RevokedToken.exists({ jti: decoded.jti })) {
+      throw new Error('Token has been revoked');
+    }
+
+    // Tokens issued before the user's last "log out everywhere" are no longer valid
+    const user = await User.findById(decoded.userId).select('+tokenVersion');
+    if (!user || (user.tokenVersion || 0) !== (decoded.ver || 0)) {
+      throw new Error('Token has been revoked');
+    }
+
+    // Impersonation tokens only work while the admin is still allowed to impersonate
+    let impersonator: Impersonator | undefined;
+    if (decoded.imp) {
+      const admin = await User.findById(decoded.imp.by).select('+tokenVersion');
+      if (
+        !admin ||
+        admin.isDisabled ||
+        (admin.tokenVersion || 0) !== (decoded.imp.ver || 0) ||
+        !hasPermission(admin.role, 'users:impersonate')
+      ) {
+        throw new Error('Token has been revoked');
+      }
+
+      impersonator = {
+        userId: String(admin._id),
+        email: admin.email,
+        role: admin.role,
+        readOnly: decoded.imp.readOnly !== false,
+        reason: decoded.imp.reason,
+      };
+    }
+
+    // Tokens of a device that has been signed out are no longer valid
+    if (decoded.sid) {
+      const session = await UserSession.findById(decoded.sid).select('revokedAt lastSeenAt');
+      if (!session || session.revokedAt) {
+        throw new Error('Token has been revoked');
+      }
+
+      if (Date.now() - session.lastSeenAt.getTime() > SESSION_LAST_SEEN_INTERVAL_MS) {
+        await UserSession.updateOne({ _id: session._id }, { lastSeenAt: new Date() });
+      }
+    }
+
     return {
-      userId: decoded.userId,
-      email: decoded.email,
-      role: decoded.role,
-      isAdmin: decoded.isAdmin
+      userId: String(user._id),
+      email: user.email,
+      role: user.role,
+      isAdmin: user.role === 'admin',
+      sessionId: decoded.sid as string | undefined,
+      impersonator,
+      user
     };
   } catch (error: any) {
     console.error('Verify token error:', error);
@@ -137,11 +620,88 @@ export async function verifyToken(token: string) {
   }
 }
 
+/**
+ * The admin behind an impersonation token
+ */
+export interface Impersonator {
+  userId: string;
+  email: string;
+  role: IUser['role'];
+  readOnly: boolean;
+  reason?: string;
+}
+
+/**
+ * Issue a short lived access token that lets an admin act as a customer.
+ * There is no refresh token - the admin starts a new impersonation when it expires.
+ */
+export async function startImpersonation(
+  adminId: string,
+  customerId: string,
+  options: { readOnly: boolean; reason: string }
+) {
+  if (adminId === customerId) {
+    throw new Error('You cannot impersonate yourself');
+  }
+
+  const [admin, customer] = await Promise.all([
+    User.findById(adminId).select('+tokenVersion'),
+    User.findById(customerId).select('+tokenVersion'),
+  ]);
+
+  if (!admin) {
+    throw new Error('User not found');
+  }
+
+  if (!customer || customer.deletedAt) {
+    throw new Error('Customer not found');
+  }
+
+  if (customer.role !== 'customer') {
+    throw new Error('Only customer accounts can be impersonated');
+  }
+
+  if (customer.isDisabled) {
+    throw new Error('Disabled accounts cannot be impersonated');
+  }
+
+  const accessToken = jwt.sign(
+    {
+      userId: customer._id,
+      email: customer.email,
+      role: customer.role,
+      isAdmin: false,
+      ver: customer.tokenVersion || 0,
+      imp: {
+        by: admin._id,
+        ver: admin.tokenVersion || 0,
+        readOnly: options.readOnly,
+        reason: options.reason
+      }
+    },
+    JWT_SECRET,
+    { expiresIn: IMPERSONATION_EXPIRES_SECONDS, jwtid: crypto.randomUUID() }
+  );
+
+  return {
+    success: true,
+    accessToken,
+    expiresIn: IMPERSONATION_EXPIRES_SECONDS,
+    expiresAt: new Date(Date.now() + IMPERSONATION_EXPIRES_SECONDS * 1000),
+    readOnly: options.readOnly,
+    customer: {
+      userId: String(customer._id),
+      email: customer.email,
+      name: customer.name
+    }
+  };
+}
+
 /**
  * Get user details (wrapper for consistency)
  */
-export async function getUserDetails(email: string) {
-  const user = await User.findOne({ email: email.toLowerCase() });
+export async function getUserDetails(userId: string) {
+  const user = await User.findById(userId);
   if (!user) {
     throw new Error('User not found');
   }
@@ -151,17 +711,452 @@ export async function getUserDetails(email: string) {
     name: user.name,
     role: user.role,
     isAdmin: user.role === 'admin',
+    permissions: getRolePermissions(user.role),
     phone: user.phone,
+    isPhoneVerified: user.isPhoneVerified,
     addresses: user.addresses,
-    isEmailVerified: user.isEmailVerified
+    isEmailVerified: user.isEmailVerified,
+    pendingEmail: user.pendingEmail,
+    twoFactorEnabled: user.twoFactorEnabled
   };
 }
 
 /**
- * Sign out (placeholder as JWT is stateless, but we can handle cleanup if needed)
+ * Sign out the current device: revoke the access token by its jti
+ * and the refresh token family it belongs to
  */
-export async function signOut(accessToken: string) {
-  // In a stateless JWT system, we can't really invalidate the token server-side 
-  // without a blacklist/redis. For now, we just return success.
+export async function signOut(accessToken: string, refreshToken?: string) {
+  const decoded = jwt.decode(accessToken) as any;
+
+  if (decoded?.jti && decoded?.exp) {
+    await RevokedToken.updateOne(
+      { jti: decoded.jti },
+      { $setOnInsert: { user: decoded.userId, expiresAt: new Date(decoded.exp * 1000) } },
+      { upsert: true }
+    );
+  }
+
+  if (decoded?.sid) {
+    await revokeSession(decoded.sid);
+  }
+
+  // Only the caller's own refresh token - never another user's session
+  if (refreshToken) {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+    if (stored && decoded?.userId && String(stored.user) === String(decoded.userId)) {
+      await revokeSession(stored.family);
+    }
+  }
+
   return { success: true };
 }
+
+/**
+ * List the devices the user is currently signed in on, most recently used first
+ */
+export async function listSessions(userId: string, currentSessionId?: string) {
+  const sessions = await UserSession.find({
+    user: userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastSeenAt: -1 });
+
+  return sessions.map((session) => ({
+    id: String(session._id),
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: String(session._id) === currentSessionId
+  }));
+}
+
+/**
+ * Sign out one of the user's own devices
+ */
+export async function revokeUserSession(userId: string, sessionId: string) {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    throw new Error('Session not found');
+  }
+
+  const session = await UserSession.findOne({
+    _id: sessionId,
+    user: userId,
+    revokedAt: { $exists: false }
+  });
+
+  if (!session) {
+    throw new Error('Session not found');
+  }
+
+  await revokeSession(sessionId);
+
+  return { success: true };
+}
+
+/**
+ * Log the user out everywhere: invalidates all issued access tokens
+ * (via tokenVersion), all refresh tokens and all device sessions.
+ * `exceptSessionId` keeps the given device's session and refresh tokens alive.
+ */
+export async function revokeUserSessions(userId: string, options: { exceptSessionId?: string } = {}) {
+  const user = await User.findByIdAndUpdate(userId, { $inc: { tokenVersion: 1 } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const { exceptSessionId } = options;
+
+  await RefreshToken.updateMany(
+    {
+      user: user._id,
+      revokedAt: { $exists: false },
+      ...(exceptSessionId && { family: { $ne: exceptSessionId } })
+    },
+    { revokedAt: new Date() }
+  );
+
+  const sessions = await UserSession.find({
+    user: user._id,
+    revokedAt: { $exists: false },
+    ...(exceptSessionId && { _id: { $ne: exceptSessionId } })
+  });
+
+  for (const session of sessions) {
+    await revokeSession(String(session._id));
+  }
+
+  return { success: true };
+}
+
+/**
+ * Store a fresh verification token on the user (invalidating any previous one)
+ * and email the link to the given address
+ */
+async function issueEmailVerification(user: IUser, email: string = user.email) {
+  const { token, tokenHash } = generateToken();
+  user.emailVerificationToken = tokenHash;
+  user.emailVerificationExpires = new Date(Date.now() + EMAIL_VERIFICATION_EXPIRES_MS);
+  await user.save();
+
+  await sendVerificationEmail(email, user.name, `${EMAIL_VERIFICATION_URL}?token=${token}`);
+}
+
+/**
+ * Mark the email address as verified using the emailed token.
+ * The token is consumed on success. Confirming an email change signs out
+ * every device and lets the old address know.
+ */
+export async function verifyEmail(token: string) {
+  const user = await User.findOne({
+    emailVerificationToken: hashToken(token),
+    emailVerificationExpires: { $gt: new Date() }
+  }).select('+emailVerificationToken +emailVerificationExpires');
+
+  if (!user) {
+    throw new Error('Invalid or expired verification link');
+  }
+
+  // Confirming a requested email change
+  const previousEmail = user.pendingEmail ? user.email : undefined;
+  if (user.pendingEmail) {
+    const taken = await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } });
+    if (taken) {
+      throw new Error('This email address is already in use by another account');
+    }
+    user.email = user.pendingEmail;
+    user.pendingEmail = undefined;
+  }
+
+  user.isEmailVerified = true;
+  user.emailVerificationToken = undefined;
+  user.emailVerificationExpires = undefined;
+  await user.save();
+
+  if (previousEmail) {
+    await revokeUserSessions(String(user._id));
+
+    try {
+      await sendEmailChangedEmail(previousEmail, user.name, user.email);
+    } catch (emailError) {
+      console.error('Error sending email change notice:', emailError);
+    }
+  }
+
+  return { success: true, email: user.email };
+}
+
+/**
+ * Make the user prove it's them again before a sensitive change, so a stolen
+ * access token isn't enough. Accounts with a password must give it; accounts
+ * without one need a 2FA code, else a code texted to their verified phone,
+ * else (OIDC accounts) a sign in within the last few minutes.
+ * @param user - Loaded with +password
+ * @param sessionId - The session making the request
+ */
+export async function verifyReauthentication(user: IUser, credentials: ReauthCredentials, sessionId?: string) {
+  if (user.password) {
+    if (!credentials.currentPassword || !await verifyPassword(credentials.currentPassword, user.password, user.salt)) {
+      throw new Error('Current password is incorrect');
+    }
+    return;
+  }
+
+  if (user.twoFactorEnabled) {
+    if (!credentials.twoFactorCode || !await verifySecondFactor(String(user._id), credentials.twoFactorCode)) {
+      throw new Error('Invalid authentication code');
+    }
+    return;
+  }
+
+  if (user.phone && user.isPhoneVerified) {
+    if (!credentials.phoneCode) {
+      throw new Error('Please confirm with the code texted to your phone number');
+    }
+    await verifyOtp(user.phone, credentials.phoneCode);
+    return;
+  }
+
+  const session = sessionId && mongoose.isValidObjectId(sessionId)
+    ? await UserSession.findOne({ _id: sessionId, user: user._id, revokedAt: { $exists: false } })
+    : null;
+  if (!session || session.createdAt.getTime() < Date.now() - REAUTHENTICATION_MAX_AGE_MS) {
+    throw new Error('Please sign in again to confirm it\'s you');
+  }
+}
+
+/**
+ * Request an email change. The new address only replaces the current one
+ * once it has been confirmed through the emailed verification link.
+ * The email is the login, so the user has to re-authenticate (see verifyReauthentication).
+ */
+export async function requestEmailChange(
+  userId: string,
+  newEmail: string,
+  credentials: ReauthCredentials = {},
+  sessionId?: string
+) {
+  const email = newEmail.toLowerCase().trim();
+  const user = await User.findById(userId).select('+password +salt');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  await verifyReauthentication(user, credentials, sessionId);
+
+  if (email === user.email) {
+    throw new Error('This is already your email address');
+  }
+
+  const taken = await User.exists({ email });
+  if (taken) {
+    throw new Error('This email address is already in use by another account');
+  }
+
+  user.pendingEmail = email;
+  await issueEmailVerification(user, email);
+
+  return { success: true, pendingEmail: email };
+}
+
+/**
+ * Change the password of a logged in user. Every other session is revoked
+ * and fresh tokens are returned for the current one.
+ */
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  currentSessionId?: string
+) {
+  const user = await User.findById(userId).select('+password +salt');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!user.password) {
+    throw new Error('No password is set for this account. Please use forgot password instead.');
+  }
+
+  const isValid = await verifyPassword(currentPassword, user.password, user.salt);
+  if (!isValid) {
+    throw new Error('Current password is incorrect');
+  }
+
+  user.password = await hashPassword(newPassword);
+  user.salt = undefined;
+  await user.save();
+
+  await revokeUserSessions(userId, { exceptSessionId: currentSessionId });
+
+  // Reload to pick up the bumped tokenVersion
+  const updatedUser = await User.findById(userId).select('+tokenVersion');
+
+  // Keep the current device signed in, replacing its refresh token
+  let sessionId = currentSessionId;
+  if (sessionId) {
+    await revokeTokenFamily(sessionId);
+  } else {
+    sessionId = String((await startSession(updatedUser!))._id);
+  }
+
+  return {
+    success: true,
+    accessToken: signAccessToken(updatedUser!, sessionId),
+    refreshToken: await issueRefreshToken(user._id, sessionId),
+    expiresIn: JWT_EXPIRES_IN_SECONDS
+  };
+}
+
+/**
+ * Send a fresh verification link, invalidating any previous one. Works with
+ * either the account email or a pending new email; a pending change is always
+ * confirmed at the new address.
+ * Resolves silently for unknown or already verified emails.
+ */
+export async function resendVerificationEmail(email: string) {
+  const normalized = email.toLowerCase().trim();
+  const user = await User.findOne({ $or: [{ email: normalized }, { pendingEmail: normalized }] });
+
+  if (!user) {
+    return { success: true };
+  }
+
+  if (user.pendingEmail) {
+    await issueEmailVerification(user, user.pendingEmail);
+  } else if (!user.isEmailVerified) {
+    await issueEmailVerification(user);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Start the password reset flow by emailing a single-use reset link.
+ * Resolves silently for unknown emails so the endpoint can't be used to probe accounts.
+ */
+export async function requestPasswordReset(email: string) {
+  const user = await User.findOne({ email: email.toLowerCase() });
+
+  if (!user) {
+    return { success: true };
+  }
+
+  const { token, tokenHash } = generateToken();
+  user.passwordResetToken = tokenHash;
+  user.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_EXPIRES_MS);
+  await user.save();
+
+  await sendPasswordResetEmail(user.email, user.name, `${PASSWORD_RESET_URL}?token=${token}`);
+
+  return { success: true };
+}
+
+/**
+ * Complete the password reset flow. The token is consumed on success.
+ */
+export async function resetPassword(token: string, newPassword: string) {
+  // Consume the token atomically, so two parallel requests can't both use it
+  const user = await User.findOneAndUpdate(
+    {
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() }
+    },
+    { $unset: { passwordResetToken: 1, passwordResetExpires: 1 } },
+    { new: true }
+  );
+
+  if (!user) {
+    throw new Error('Invalid or expired password reset link');
+  }
+
+  user.password = await hashPassword(newPassword);
+  user.salt = undefined;
+  if (user.cognitoId && !user.migratedAt) {
+    user.migratedAt = new Date();
+  }
+  await user.save();
+
+  // Sign out every device - whoever had a session before the reset loses it
+  await revokeUserSessions(String(user._id));
+
+  return { success: true };
+}
+
+// Email helper functions
+async function sendVerificationEmail(email: string, name: string, verificationUrl: string) {
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Verify Your Email</h2>
+      <p>Hi ${name},</p>
+      <p>Thanks for signing up with Mama Dye Dreams! Please confirm your email address so we can keep you updated about your orders.</p>
+
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${verificationUrl}" style="background: #4CAF50; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
+          Verify Email
+        </a>
+      </div>
+
+      <p style="color: #666; font-size: 14px;">
+        This link expires in 24 hours. If you didn't create an account, you can safely ignore this email.
+      </p>
+    </div>
+  `;
+
+  await sendEmail(
+    email,
+    'Verify your Mama Dye Dreams email',
+    htmlBody,
+    `Verify your email using this link (valid for 24 hours): ${verificationUrl}`
+  );
+}
+
+async function sendEmailChangedEmail(email: string, name: string, newEmail: string) {
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Your Email Address Was Changed</h2>
+      <p>Hi ${name},</p>
+      <p>The email address on your Mama Dye Dreams account was changed to <strong>${newEmail}</strong>, and every device has been signed out.</p>
+
+      <p style="color: #666; font-size: 14px;">
+        If you didn't make this change, please contact our support team right away.
+      </p>
+    </div>
+  `;
+
+  await sendEmail(
+    email,
+    'Your Mama Dye Dreams email address was changed',
+    htmlBody,
+    `The email address on your Mama Dye Dreams account was changed to ${newEmail}. If you didn't make this change, please contact our support team right away.`
+  );
+}
+
+async function sendPasswordResetEmail(email: string, name: string, resetUrl: string) {
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Reset Your Password</h2>
+      <p>Hi ${name},</p>
+      <p>We received a request to reset the password for your Mama Dye Dreams account.</p>
+
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${resetUrl}" style="background: #4CAF50; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
+          Reset Password
+        </a>
+      </div>
+
+      <p style="color: #666; font-size: 14px;">
+        This link expires in 1 hour and can only be used once. If you didn't request a password reset, you can safely ignore this email.
+      </p>
+    </div>
+  `;
+
+  await sendEmail(
+    email,
+    'Reset your Mama Dye Dreams password',
+    htmlBody,
+    `Reset your password using this link (valid for 1 hour): ${resetUrl}`
+  );
+}
@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { Category, ICategory } from '../models/Category.js';
+
+export interface CategoryNode {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string;
+  image?: string;
+  sortOrder: number;
+  metaTitle?: string;
+  metaDescription?: string;
+  metaKeywords: string[];
+  children: CategoryNode[];
+}
+
+/**
+ * URL slug for a category name ("T-Shirts" -> "t-shirts")
+ */
+export function slugifyCategory(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+/**
+ * Find a category by ID or slug
+ */
+export async function findCategory(idOrSlug: string) {
+  if (mongoose.isValidObjectId(idOrSlug)) {
+    const category = await Category.findById(idOrSlug);
+    if (category) {
+      return category;
+    }
+  }
+
+  return Category.findOne({ slug: String(idOrSlug).toLowerCase() });
+}
+
+/**
+ * IDs of a category and every category below it
+ * @param options.activeOnly - Skip inactive categories along with everything below them
+ */
+export async function getCategoryWithDescendantIds(
+  categoryId: unknown,
+  options: { activeOnly?: boolean } = {}
+): Promise<mongoose.Types.ObjectId[]> {
+  const categories = await Category.find(options.activeOnly ? { isActive: true } : {}).select('parent').lean();
+  const ids = [new mongoose.Types.ObjectId(String(categoryId))];
+
+  // Breadth first - the category tree is small enough to walk in memory
+  for (let i = 0; i < ids.length; i++) {
+    const parentId = String(ids[i]);
+    categories
+      .filter(category => category.parent && String(category.parent) === parentId)
+      .forEach(category => ids.push(category._id as mongoose.Types.ObjectId));
+  }
+
+  return ids;
+}
+
+/**
+ * Whether making parentId the parent of categoryId would create a cycle
+ */
+export async function wouldCreateCycle(categoryId: string, parentId: string): Promise<boolean> {
+  const descendants = await getCategoryWithDescendantIds(categoryId);
+  return descendants.some(id => String(id) === String(parentId));
+}
+
+/**
+ * Nest categories under their parents, ordered by sortOrder then name.
+ * Categories whose parent isn't in the list are left out with it.
+ */
+export function buildCategoryTree(categories: ICategory[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>();
+
+  categories.forEach(category => {
+    nodes.set(String(category._id), {
+      _id: category._id as mongoose.Types.ObjectId,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      image: category.image,
+      sortOrder: category.sortOrder,
+      metaTitle: category.metaTitle,
+      metaDescription: category.metaDescription,
+      metaKeywords: category.metaKeywords,
+      children: [],
+    });
+  });
+
+  const roots: CategoryNode[] = [];
+
+  categories.forEach(category => {
+    const node = nodes.get(String(category._id))!;
+
+    if (!category.parent) {
+      roots.push(node);
+    } else {
+      nodes.get(String(category.parent))?.children.push(node);
+    }
+  });
+
+  const sortNodes = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
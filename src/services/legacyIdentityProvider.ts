@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { InitiateAuthCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { cognitoClient, cognitoConfig } from '../config/cognito.js';
+
+/**
+ * An identity provider we used to authenticate against before local passwords.
+ * Used once per user to verify their old credentials so a local hash can be stored.
+ */
+export interface LegacyIdentityProvider {
+  readonly name: string;
+  verifyCredentials(email: string, password: string): Promise<boolean>;
+}
+
+/**
+ * Verifies credentials against the old Cognito user pool
+ */
+export class CognitoIdentityProvider implements LegacyIdentityProvider {
+  readonly name = 'cognito';
+
+  async verifyCredentials(email: string, password: string): Promise<boolean> {
+    const authParameters: Record<string, string> = {
+      USERNAME: email,
+      PASSWORD: password,
+    };
+
+    // App clients with a secret require a SECRET_HASH
+    if (cognitoConfig.clientSecret) {
+      authParameters.SECRET_HASH = crypto
+        .createHmac('sha256', cognitoConfig.clientSecret)
+        .update(email + cognitoConfig.clientId)
+        .digest('base64');
+    }
+
+    try {
+      const response = await cognitoClient.send(new InitiateAuthCommand({
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        ClientId: cognitoConfig.clientId,
+        AuthParameters: authParameters,
+      }));
+
+      // A challenge (e.g. NEW_PASSWORD_REQUIRED) still proves the password was right
+      return Boolean(response.AuthenticationResult || response.ChallengeName);
+    } catch (error: any) {
+      if (['NotAuthorizedException', 'UserNotFoundException', 'UserNotConfirmedException'].includes(error.name)) {
+        return false;
+      }
+      console.error('Cognito credential check error:', error);
+      throw new Error('Failed to verify credentials with the legacy identity provider');
+    }
+  }
+}
+
+/**
+ * In-memory provider for local development and tests.
+ * Users come from FAKE_IDP_USERS as "email:password,email:password".
+ */
+export class FakeIdentityProvider implements LegacyIdentityProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly users: Map<string, string>) {}
+
+  static fromEnv(value = process.env.FAKE_IDP_USERS || ''): FakeIdentityProvider {
+    const users = new Map<string, string>();
+    value.split(',').filter(Boolean).forEach(entry => {
+      const separator = entry.indexOf(':');
+      if (separator > 0) {
+        users.set(entry.slice(0, separator).trim().toLowerCase(), entry.slice(separator + 1));
+      }
+    });
+    return new FakeIdentityProvider(users);
+  }
+
+  async verifyCredentials(email: string, password: string): Promise<boolean> {
+    return this.users.get(email.toLowerCase()) === password;
+  }
+}
+
+/**
+ * Create the provider configured through LEGACY_IDP ('cognito' | 'fake' | 'none')
+ */
+export const createLegacyIdentityProvider = (): LegacyIdentityProvider | null => {
+  switch (process.env.LEGACY_IDP || 'cognito') {
+    case 'fake':
+      return FakeIdentityProvider.fromEnv();
+    case 'none':
+      return null;
+    case 'cognito':
+    default:
+      return new CognitoIdentityProvider();
+  }
+};
+
+export const legacyIdentityProvider = createLegacyIdentityProvider();
@@ -0,0 +1,168 @@
+import { LoginAttempt, ILoginAttempt } from '../models/LoginAttempt.js';
+import { User } from '../models/User.js';
+import { sendEmail } from '../config/ses.js';
+
+// Failed attempts allowed before delays kick in. An IP can be shared by many
+// customers (offices, mobile carrier NAT), so it gets more room.
+const FREE_ATTEMPTS = 3;
+const IP_FREE_ATTEMPTS = Number(process.env.LOGIN_IP_FREE_ATTEMPTS) || 20;
+// Delay doubles with every failure after the free attempts, up to this cap
+const MAX_DELAY_MS = 60 * 1000;
+// Lock an email after this many failures. IPs are only ever delayed, never locked.
+const EMAIL_MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 10;
+// Failures forgiven on an IP for each successful login from it
+const IP_SUCCESS_CREDIT = 5;
+const LOCKOUT_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+// Forget counters a day after the last failure
+const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const emailKey = (email: string) => `email:${email.toLowerCase().trim()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+/**
+ * When the next attempt is allowed for a counter, or null if it is allowed now
+ */
+function nextAllowedAt(attempt: ILoginAttempt | null): Date | null {
+  if (!attempt) return null;
+
+  const freeAttempts = attempt.key.startsWith('ip:') ? IP_FREE_ATTEMPTS : FREE_ATTEMPTS;
+
+  const now = Date.now();
+
+  if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+    return attempt.lockedUntil;
+  }
+
+  if (attempt.failures >= freeAttempts && attempt.lastFailureAt) {
+    const delay = Math.min(1000 * 2 ** (attempt.failures - freeAttempts), MAX_DELAY_MS);
+    const allowedAt = attempt.lastFailureAt.getTime() + delay;
+    if (allowedAt > now) {
+      return new Date(allowedAt);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a login attempt for this email/IP may proceed
+ */
+export async function checkLoginAllowed(email: string, ip: string) {
+  const attempts = await LoginAttempt.find({ key: { $in: [emailKey(email), ipKey(ip)] } });
+
+  const blockedUntil = attempts
+    .map(nextAllowedAt)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  if (!blockedUntil) {
+    return { allowed: true, retryAfterSeconds: 0, locked: false };
+  }
+
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.ceil((blockedUntil.getTime() - Date.now()) / 1000),
+    locked: attempts.some(attempt => attempt.lockedUntil && attempt.lockedUntil >= blockedUntil),
+  };
+}
+
+/**
+ * Increment a failure counter, locking it once it reaches the limit (if any).
+ * @returns true if this failure caused a lockout
+ */
+async function incrementFailures(key: string, maxFailures?: number): Promise<boolean> {
+  const now = new Date();
+
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + ATTEMPT_WINDOW_MS) },
+    },
+    { upsert: true, new: true }
+  );
+
+  if (maxFailures === undefined || attempt.failures < maxFailures) {
+    return false;
+  }
+
+  // Start the lockout and reset the counter so the user gets fresh attempts afterwards
+  const locked = await LoginAttempt.updateOne(
+    { _id: attempt._id, failures: { $gte: maxFailures } },
+    { $set: { failures: 0, lockedUntil: new Date(now.getTime() + LOCKOUT_MS) } }
+  );
+
+  return locked.modifiedCount > 0;
+}
+
+/**
+ * Record a failed login for both the email and the IP
+ */
+export async function recordLoginFailure(email: string, ip: string) {
+  const [emailLocked] = await Promise.all([
+    incrementFailures(emailKey(email), EMAIL_MAX_FAILURES),
+    incrementFailures(ipKey(ip)),
+  ]);
+
+  if (emailLocked) {
+    console.warn(`⚠️  Login locked for ${email} after too many failed attempts`);
+
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+    if (user) {
+      try {
+        await sendLockoutEmail(user.email, user.name);
+      } catch (error) {
+        console.error('Error sending lockout email:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Reset the email counter after a successful login and let the IP counter
+ * decay, so customers sharing an IP don't build up delays for each other
+ */
+export async function recordLoginSuccess(email: string, ip: string) {
+  await Promise.all([
+    LoginAttempt.deleteOne({ key: emailKey(email) }),
+    LoginAttempt.updateOne(
+      { key: ipKey(ip) },
+      [{ $set: { failures: { $max: [0, { $subtract: ['$failures', IP_SUCCESS_CREDIT] }] } } }]
+    ),
+  ]);
+}
+
+/**
+ * Clear any lockout/failed attempts for an account (admin action)
+ */
+export async function unlockAccount(email: string) {
+  await LoginAttempt.deleteOne({ key: emailKey(email) });
+}
+
+// Email helper functions
+async function sendLockoutEmail(email: string, name: string) {
+  const minutes = Math.round(LOCKOUT_MS / 60000);
+
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Your Account Has Been Temporarily Locked</h2>
+      <p>Hi ${name},</p>
+      <p>We noticed several failed login attempts on your Mama Dye Dreams account, so we've temporarily locked it for ${minutes} minutes to keep it safe.</p>
+
+      <div style="background: #fff3e0; padding: 15px; border-radius: 8px; border-left: 4px solid #FF9800;">
+        <p style="margin: 0;">If this wasn't you, we recommend resetting your password once the lock expires.</p>
+      </div>
+
+      <div style="margin-top: 30px;">
+        <p style="color: #666; font-size: 14px;">If you need help accessing your account, please contact our support team.</p>
+      </div>
+    </div>
+  `;
+
+  await sendEmail(
+    email,
+    'Your Mama Dye Dreams account has been temporarily locked',
+    htmlBody,
+    `Your account has been locked for ${minutes} minutes after several failed login attempts.`
+  );
+}
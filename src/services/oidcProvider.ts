@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Claims we use from a verified ID token
+ */
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  nonce?: string;
+}
+
+export interface OidcConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Values that must survive the redirect to the provider (kept in the session)
+ */
+export interface OidcAuthorizationState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000; // 1 hour
+const JWKS_MIN_REFRESH_MS = 60 * 1000; // Don't hammer the provider for unknown key ids
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'];
+
+/**
+ * OpenID Connect relying party using the authorization code flow with PKCE.
+ * Works with any provider that publishes a discovery document (Google, or a
+ * local mock server for testing).
+ */
+export class OidcProvider {
+  private discovery?: { document: DiscoveryDocument; fetchedAt: number };
+  private keys = new Map<string, crypto.KeyObject>();
+  private keysFetchedAt = 0;
+
+  constructor(private readonly config: OidcConfig) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Build the provider login URL and the state to check on the callback
+   */
+  async createAuthorizationRequest(): Promise<{ url: string; authorization: OidcAuthorizationState }> {
+    const document = await this.getDiscoveryDocument();
+
+    const authorization: OidcAuthorizationState = {
+      state: crypto.randomBytes(16).toString('base64url'),
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      codeVerifier: crypto.randomBytes(32).toString('base64url'),
+    };
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scopes,
+      state: authorization.state,
+      nonce: authorization.nonce,
+      code_challenge: crypto.createHash('sha256').update(authorization.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    });
+
+    return { url: `${document.authorization_endpoint}?${params.toString()}`, authorization };
+  }
+
+  /**
+   * Exchange the authorization code and return the verified ID token claims
+   */
+  async authenticate(code: string, authorization: OidcAuthorizationState): Promise<OidcClaims> {
+    const document = await this.getDiscoveryDocument();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: authorization.codeVerifier,
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await fetch(document.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    });
+    const tokens: any = await response.json().catch(() => ({}));
+
+    if (!response.ok || !tokens.id_token) {
+      console.error('OIDC token exchange failed:', response.status, tokens.error, tokens.error_description);
+      throw new Error('Failed to complete sign in with the identity provider');
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token);
+
+    if (claims.nonce !== authorization.nonce) {
+      throw new Error('Invalid ID token nonce');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Check an ID token's signature (against the provider's JWKS), issuer,
+   * audience and expiry
+   */
+  private async verifyIdToken(idToken: string): Promise<OidcClaims> {
+    const document = await this.getDiscoveryDocument();
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Invalid ID token');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+
+    try {
+      return jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: document.issuer,
+        audience: this.config.clientId,
+      }) as OidcClaims;
+    } catch (error) {
+      console.error('OIDC ID token verification failed:', error);
+      throw new Error('Invalid ID token');
+    }
+  }
+
+  private async getDiscoveryDocument(): Promise<DiscoveryDocument> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_CACHE_MS) {
+      return this.discovery.document;
+    }
+
+    const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load OIDC discovery document (${response.status})`);
+    }
+
+    const document = await response.json() as DiscoveryDocument;
+    this.discovery = { document, fetchedAt: Date.now() };
+
+    return document;
+  }
+
+  /**
+   * Public key for a key id, refreshing the JWKS when the provider rotates keys
+   */
+  private async getSigningKey(kid?: string): Promise<crypto.KeyObject> {
+    let key = this.findKey(kid);
+
+    if (!key && Date.now() - this.keysFetchedAt > JWKS_MIN_REFRESH_MS) {
+      await this.loadKeys();
+      key = this.findKey(kid);
+    }
+
+    if (!key) {
+      throw new Error('Unknown ID token signing key');
+    }
+
+    return key;
+  }
+
+  private findKey(kid?: string): crypto.KeyObject | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+    // Providers with a single key may leave out the key id
+    return this.keys.size === 1 ? [...this.keys.values()][0] : undefined;
+  }
+
+  private async loadKeys() {
+    const document = await this.getDiscoveryDocument();
+    const response = await fetch(document.jwks_uri, { headers: { Accept: 'application/json' } });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load OIDC signing keys (${response.status})`);
+    }
+
+    const { keys = [] } = await response.json() as { keys?: (crypto.JsonWebKey & { kid?: string; use?: string })[] };
+
+    this.keys.clear();
+    keys
+      .filter(jwk => !jwk.use || jwk.use === 'sig')
+      .forEach((jwk, index) => {
+        this.keys.set(jwk.kid || `key-${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      });
+    this.keysFetchedAt = Date.now();
+  }
+}
+
+/**
+ * Create the provider configured through OIDC_* env vars (null when OIDC_CLIENT_ID is not set)
+ */
+export const createOidcProvider = (): OidcProvider | null => {
+  if (!process.env.OIDC_CLIENT_ID) {
+    return null;
+  }
+
+  return new OidcProvider({
+    name: process.env.OIDC_PROVIDER_NAME || 'google',
+    issuer: process.env.OIDC_ISSUER || 'https://accounts.google.com',
+    clientId: process.env.OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    redirectUri: process.env.OIDC_REDIRECT_URI || 'http://localhost:3001/api/auth/oidc/callback',
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  });
+};
+
+export const oidcProvider = createOidcProvider();
@@ -0,0 +1,47 @@
+import { IOrder, IOrderItem } from '../models/Order.js';
+import { Product } from '../models/Product.js';
+
+/**
+ * Take each item of an order out of stock. Records on every item whether its
+ * stock was actually taken, so a cancellation only puts back what was removed.
+ * Call order.save() afterwards to keep the record.
+ * @returns The items there wasn't enough stock for
+ */
+export async function deductOrderStock(order: IOrder): Promise<IOrderItem[]> {
+  const shortItems: IOrderItem[] = [];
+
+  for (const item of order.items) {
+    const product = await Product.findById(item.product);
+    // Orders placed before variants only have the color and size
+    const variant = product?.resolveVariant({ variantId: item.variant, color: item.color, size: item.size });
+    item.stockDeducted = Boolean(product && variant && await product.updateStock(variant._id, item.quantity));
+
+    if (!item.stockDeducted) {
+      shortItems.push(item);
+    }
+  }
+
+  return shortItems;
+}
+
+/**
+ * Put back the stock taken for an order's items (e.g. a cancelled order).
+ * Items from before stockDeducted was recorded count as taken once the order
+ * got past payment. Call order.save() afterwards to keep the record.
+ */
+export async function restoreOrderStock(order: IOrder) {
+  const legacyDeducted = !['pending', 'payment_pending'].includes(order.orderStatus);
+
+  for (const item of order.items) {
+    if (!(item.stockDeducted ?? legacyDeducted)) {
+      continue;
+    }
+
+    const product = await Product.findById(item.product);
+    const variant = product?.resolveVariant({ variantId: item.variant, color: item.color, size: item.size });
+    if (product && variant) {
+      await product.restoreStock(variant._id, item.quantity);
+    }
+    item.stockDeducted = false;
+  }
+}
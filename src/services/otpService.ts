@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { OtpCode } from '../models/OtpCode.js';
+import { sendSms } from '../config/sms.js';
+import { isValidPhone } from '../utils/validation.js';
+
+const OTP_SECRET = process.env.OTP_SECRET || process.env.JWT_SECRET || 'mama-dye-dreams-secret-key-change-in-prod';
+const OTP_LENGTH = 6;
+const OTP_EXPIRES_MS = 5 * 60 * 1000; // 5 minutes
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
+const OTP_MAX_ATTEMPTS = 5;
+// Codes that can be texted to one number per hour, so a locked-out number
+// can't be re-armed for more guesses indefinitely
+const OTP_PHONE_WINDOW_MS = 60 * 60 * 1000;
+const OTP_PHONE_MAX_PER_WINDOW = Number(process.env.OTP_PHONE_MAX_PER_HOUR) || 5;
+// Numbers that can be texted within the code lifetime, per client IP and overall,
+// so the endpoint can't be used to pump SMS to arbitrary numbers
+const OTP_IP_MAX_PER_WINDOW = Number(process.env.OTP_IP_MAX_PER_WINDOW) || 5;
+const OTP_GLOBAL_MAX_PER_WINDOW = Number(process.env.OTP_GLOBAL_MAX_PER_WINDOW) || 200;
+
+/**
+ * Normalize an Indian mobile number to +91XXXXXXXXXX
+ */
+export function normalizePhone(phone: string): string {
+  const digits = String(phone).replace(/\s+/g, '').replace(/^\+91/, '');
+  return `+91${digits}`;
+}
+
+/**
+ * The formats a phone number may have been stored in on existing users
+ */
+export function phoneVariants(phone: string): string[] {
+  const normalized = normalizePhone(phone);
+  return [normalized, normalized.slice(3)];
+}
+
+function hashCode(phone: string, code: string): string {
+  return crypto.createHmac('sha256', OTP_SECRET).update(`${phone}:${code}`).digest('hex');
+}
+
+/**
+ * Generate and text a one-time code, replacing any previous code for the number.
+ * Returns sent: false with the time to wait if a code was sent too recently, the
+ * number is locked after too many wrong attempts or has had its hourly share of
+ * codes, or too many numbers were texted recently from this IP or overall.
+ */
+export async function requestOtp(phone: string, ip?: string) {
+  if (!isValidPhone(phone)) {
+    throw new Error('Invalid phone number format. Use +919876543210 or 9876543210');
+  }
+
+  const normalized = normalizePhone(phone);
+  const existing = await OtpCode.findOne({ phone: normalized });
+  const now = Date.now();
+  const retryAfter = (at: number) => ({ sent: false, retryAfterSeconds: Math.ceil((at - now) / 1000) });
+
+  let windowStart = new Date(now);
+  let sendCount = 1;
+
+  if (existing) {
+    const resendAt = existing.lastSentAt.getTime() + OTP_RESEND_COOLDOWN_MS;
+    if (resendAt > now) {
+      return retryAfter(resendAt);
+    }
+
+    // Locked until the code it was guessing at expires
+    const codeExpiresAt = existing.codeExpiresAt?.getTime() || 0;
+    if (existing.attempts >= OTP_MAX_ATTEMPTS && codeExpiresAt > now) {
+      return retryAfter(codeExpiresAt);
+    }
+
+    const windowEndsAt = (existing.sendWindowStart?.getTime() || 0) + OTP_PHONE_WINDOW_MS;
+    if (windowEndsAt > now) {
+      if ((existing.sendCount || 0) >= OTP_PHONE_MAX_PER_WINDOW) {
+        return retryAfter(windowEndsAt);
+      }
+      windowStart = existing.sendWindowStart;
+      sendCount = (existing.sendCount || 0) + 1;
+    }
+  }
+
+  // Records are kept at least a code lifetime after the last send, so the
+  // ones sent since the start of the window are the recent sends
+  const recentSince = new Date(now - OTP_EXPIRES_MS);
+  const [sentFromIp, sentOverall] = await Promise.all([
+    ip ? OtpCode.countDocuments({ requestIp: ip, lastSentAt: { $gt: recentSince } }) : Promise.resolve(0),
+    OtpCode.countDocuments({ lastSentAt: { $gt: recentSince } }),
+  ]);
+
+  if (sentFromIp >= OTP_IP_MAX_PER_WINDOW || sentOverall >= OTP_GLOBAL_MAX_PER_WINDOW) {
+    if (sentOverall >= OTP_GLOBAL_MAX_PER_WINDOW) {
+      console.warn('⚠️  OTP send limit reached for all numbers');
+    }
+    return { sent: false, retryAfterSeconds: OTP_EXPIRES_MS / 1000 };
+  }
+
+  const code = crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+  const codeExpiresAt = new Date(now + OTP_EXPIRES_MS);
+  const fields = {
+    codeHash: hashCode(normalized, code),
+    attempts: 0,
+    lastSentAt: new Date(now),
+    requestIp: ip,
+    codeExpiresAt,
+    sendCount,
+    sendWindowStart: windowStart,
+    expiresAt: new Date(Math.max(codeExpiresAt.getTime(), windowStart.getTime() + OTP_PHONE_WINDOW_MS)),
+  };
+
+  // Only replace the record that was checked above, so parallel requests
+  // can't both get past the cooldown and the per-number cap
+  if (existing) {
+    const replaced = await OtpCode.updateOne({ _id: existing._id, lastSentAt: existing.lastSentAt }, fields);
+    if (replaced.modifiedCount !== 1) {
+      return retryAfter(now + OTP_RESEND_COOLDOWN_MS);
+    }
+  } else {
+    try {
+      await OtpCode.create({ phone: normalized, ...fields });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return retryAfter(now + OTP_RESEND_COOLDOWN_MS);
+      }
+      throw error;
+    }
+  }
+
+  await sendSms(
+    normalized,
+    `${code} is your Mama Dye Dreams login code. It expires in ${OTP_EXPIRES_MS / 60000} minutes. Do not share it with anyone.`
+  );
+
+  return { sent: true, retryAfterSeconds: OTP_RESEND_COOLDOWN_MS / 1000 };
+}
+
+/**
+ * Check a one-time code. The code is consumed on success. After too many
+ * wrong attempts the number is locked until the code expires.
+ * @returns The normalized phone number
+ */
+export async function verifyOtp(phone: string, code: string): Promise<string> {
+  const normalized = normalizePhone(phone);
+
+  // Count the attempt before comparing, atomically, so parallel guesses can't
+  // all slip under the limit
+  const record = await OtpCode.findOneAndUpdate(
+    { phone: normalized, codeExpiresAt: { $gt: new Date() }, attempts: { $lt: OTP_MAX_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  if (!record) {
+    // Kept rather than deleted, so the lock, cooldown and send cap still apply
+    const locked = await OtpCode.exists({
+      phone: normalized,
+      codeExpiresAt: { $gt: new Date() },
+      attempts: { $gte: OTP_MAX_ATTEMPTS },
+    });
+    throw new Error(locked
+      ? 'Too many incorrect attempts. Please request a new code once this one expires.'
+      : 'Invalid or expired code. Please request a new one.');
+  }
+
+  const expected = Buffer.from(record.codeHash, 'hex');
+  const actual = Buffer.from(hashCode(normalized, String(code).trim()), 'hex');
+
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid code');
+  }
+
+  // Single use - expire the code rather than delete the record, which holds
+  // the send history. Only one of several parallel correct submissions wins.
+  const consumed = await OtpCode.updateOne(
+    { _id: record._id, codeHash: record.codeHash, codeExpiresAt: { $gt: new Date() } },
+    { codeExpiresAt: new Date() }
+  );
+  if (consumed.modifiedCount !== 1) {
+    throw new Error('Invalid or expired code. Please request a new one.');
+  }
+
+  return normalized;
+}
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// scrypt cost parameters - raise SCRYPT_COST (a power of two) as hardware gets faster
+const SCRYPT_COST = Number(process.env.SCRYPT_COST) || 16384;
+const SCRYPT_BLOCK_SIZE = Number(process.env.SCRYPT_BLOCK_SIZE) || 8;
+const SCRYPT_PARALLELIZATION = Number(process.env.SCRYPT_PARALLELIZATION) || 1;
+const KEY_LENGTH = 64;
+const HASH_PREFIX = 'scrypt';
+
+// Bounds for parameters read back from stored hashes - the defaults with some
+// headroom, so a tampered hash can't make each verify take gigabytes of memory.
+// Keep the SCRYPT_* settings above within them.
+const MAX_SCRYPT_COST = 2 ** 17;
+const MAX_SCRYPT_BLOCK_SIZE = 16;
+const MAX_SCRYPT_PARALLELIZATION = 4;
+const MAX_SCRYPT_MEMORY = 64 * 1024 * 1024; // 128 * N * r bytes, 16 MiB for the defaults
+
+// Legacy PBKDF2 parameters (hash and salt stored in separate fields)
+const LEGACY_ITERATIONS = 1000;
+const LEGACY_KEY_LENGTH = 64;
+
+interface ParsedHash {
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+/**
+ * Parse a versioned hash: scrypt$<N>$<r>$<p>$<salt>$<hash>
+ * Returns null for legacy PBKDF2 hashes
+ */
+function parseHash(storedHash: string): ParsedHash | null {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+    return null;
+  }
+
+  return {
+    cost: Number(parts[1]),
+    blockSize: Number(parts[2]),
+    parallelization: Number(parts[3]),
+    salt: Buffer.from(parts[4], 'base64'),
+    hash: Buffer.from(parts[5], 'base64'),
+  };
+}
+
+/**
+ * Whether a parsed hash is well formed: a full-length key, a salt and sane
+ * cost parameters. A truncated or empty hash must never verify.
+ */
+function isValidParsedHash(parsed: ParsedHash): boolean {
+  const { cost, blockSize, parallelization } = parsed;
+
+  return parsed.hash.length === KEY_LENGTH
+    && parsed.salt.length > 0
+    && Number.isInteger(cost) && cost > 1 && cost <= MAX_SCRYPT_COST && (cost & (cost - 1)) === 0
+    && Number.isInteger(blockSize) && blockSize >= 1 && blockSize <= MAX_SCRYPT_BLOCK_SIZE
+    && Number.isInteger(parallelization) && parallelization >= 1 && parallelization <= MAX_SCRYPT_PARALLELIZATION
+    && 128 * cost * blockSize <= MAX_SCRYPT_MEMORY;
+}
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number, keyLength: number) {
+  return scrypt(password, salt, keyLength, {
+    N: cost,
+    r: blockSize,
+    p: parallelization,
+    maxmem: 256 * cost * blockSize * parallelization,
+  });
+}
+
+/**
+ * Hash a password with scrypt using the current cost parameters
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION, KEY_LENGTH);
+
+  return [
+    HASH_PREFIX,
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELIZATION,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Verify a password against a stored hash (constant-time comparison).
+ * Legacy PBKDF2 hashes need the separately stored salt.
+ */
+export async function verifyPassword(password: string, storedHash: string, legacySalt?: string): Promise<boolean> {
+  const parsed = parseHash(storedHash);
+
+  if (!parsed) {
+    if (!legacySalt) {
+      return false;
+    }
+    const expected = Buffer.from(storedHash, 'hex');
+    const actual = crypto.pbkdf2Sync(password, legacySalt, LEGACY_ITERATIONS, LEGACY_KEY_LENGTH, 'sha512');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  if (!isValidParsedHash(parsed)) {
+    return false;
+  }
+
+  const actual = await deriveKey(
+    password,
+    parsed.salt,
+    parsed.cost,
+    parsed.blockSize,
+    parsed.parallelization,
+    KEY_LENGTH
+  );
+  return crypto.timingSafeEqual(parsed.hash, actual);
+}
+
+/**
+ * Whether a stored hash uses a legacy format or outdated cost parameters
+ */
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parseHash(storedHash);
+
+  return !parsed
+    || !isValidParsedHash(parsed)
+    || parsed.cost !== SCRYPT_COST
+    || parsed.blockSize !== SCRYPT_BLOCK_SIZE
+    || parsed.parallelization !== SCRYPT_PARALLELIZATION;
+}
@@ -0,0 +1,110 @@
+import { PipelineStage } from 'mongoose';
+import { Product } from '../models/Product.js';
+import { combineFacetFilters, ProductFilters } from './productFilters.js';
+
+// Lower bounds of the price buckets, prices from the last one up share a bucket
+export const PRICE_BUCKET_BOUNDARIES = [0, 500, 1000, 2000, 3000];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: { _id: unknown; name?: string; slug?: string; count: number }[];
+  colors: FacetCount[];
+  sizes: FacetCount[];
+  prices: { min: number; max: number | null; count: number }[];
+  availability: { inStock: number; outOfStock: number };
+}
+
+/**
+ * Counts per category, color, size, price bucket and stock status for the
+ * products matching the listing filters
+ */
+export async function getProductFacets({ baseFilter, filters, inStockFilter }: ProductFilters): Promise<ProductFacets> {
+  const countValues = (field: string): PipelineStage.FacetPipelineStage[] => [
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $project: { _id: 0, value: '$_id', count: 1 } },
+    { $sort: { count: -1, value: 1 } },
+  ];
+
+  const [result] = await Product.aggregate([
+    { $match: baseFilter },
+    {
+      $facet: {
+        categories: [
+          { $match: combineFacetFilters(filters, 'category') },
+          { $group: { _id: '$category', count: { $sum: 1 } } },
+          {
+            $lookup: {
+              from: 'categories',
+              localField: '_id',
+              foreignField: '_id',
+              as: 'category',
+            },
+          },
+          { $unwind: { path: '$category', preserveNullAndEmptyArrays: true } },
+          { $project: { count: 1, name: '$category.name', slug: '$category.slug' } },
+          { $sort: { count: -1, name: 1 } },
+        ],
+        colors: [
+          { $match: combineFacetFilters(filters, 'color') },
+          { $unwind: '$colors' },
+          ...countValues('$colors'),
+        ],
+        sizes: [
+          { $match: combineFacetFilters(filters, 'size') },
+          { $unwind: '$sizes' },
+          ...countValues('$sizes.name'),
+        ],
+        prices: [
+          { $match: combineFacetFilters(filters, 'price') },
+          {
+            $bucket: {
+              groupBy: '$price',
+              boundaries: PRICE_BUCKET_BOUNDARIES,
+              default: 'other',
+              output: { count: { $sum: 1 } },
+            },
+          },
+        ],
+        // $facet can't nest, so stock status is counted as two sub-pipelines
+        total: [
+          { $match: combineFacetFilters(filters, 'availability') },
+          { $count: 'count' },
+        ],
+        inStock: [
+          { $match: combineFacetFilters(filters, 'availability') },
+          { $match: inStockFilter },
+          { $count: 'count' },
+        ],
+      },
+    },
+  ]);
+
+  // $bucket puts prices above the last boundary in the default bucket
+  const lastBoundary = PRICE_BUCKET_BOUNDARIES[PRICE_BUCKET_BOUNDARIES.length - 1];
+  const prices = result.prices.map((bucket: { _id: number | string; count: number }) => {
+    if (bucket._id === 'other') {
+      return { min: lastBoundary, max: null, count: bucket.count };
+    }
+    const index = PRICE_BUCKET_BOUNDARIES.indexOf(bucket._id as number);
+    return { min: bucket._id as number, max: PRICE_BUCKET_BOUNDARIES[index + 1], count: bucket.count };
+  });
+
+  // $count returns no document at all for zero matches
+  const total = result.total[0]?.count || 0;
+  const inStock = result.inStock[0]?.count || 0;
+
+  return {
+    categories: result.categories,
+    colors: result.colors,
+    sizes: result.sizes,
+    prices,
+    availability: {
+      inStock,
+      outOfStock: total - inStock,
+    },
+  };
+}
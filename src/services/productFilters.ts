@@ -0,0 +1,107 @@
+import { findCategory, getCategoryWithDescendantIds } from './categoryService.js';
+
+export type FacetName = 'category' | 'color' | 'size' | 'price' | 'availability';
+
+/**
+ * The filter for each facet the shopper has narrowed down, kept apart so a
+ * facet's counts can ignore its own selection (picking "Rainbow" shouldn't
+ * hide the other colors)
+ */
+export type FacetFilters = Partial<Record<FacetName, Record<string, any>>>;
+
+export interface ProductFilters {
+  // Filters that always apply (active products, search, sale)
+  baseFilter: Record<string, any>;
+  filters: FacetFilters;
+  // Products with an in-stock variant in the selected colors and sizes
+  inStockFilter: Record<string, any>;
+}
+
+/**
+ * Split a multi-select query value ("Rainbow,Blue Spiral") into its values
+ */
+export function parseList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(item => String(item ?? '').split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Combine the facet filters, optionally leaving one out
+ */
+export function combineFacetFilters(filters: FacetFilters, except?: FacetName): Record<string, any> {
+  const parts = (Object.keys(filters) as FacetName[])
+    .filter(name => name !== except && filters[name])
+    .map(name => filters[name]!);
+
+  return parts.length > 0 ? { $and: parts } : {};
+}
+
+/**
+ * Turn product listing query params into MongoDB filters.
+ * Params: category (IDs or slugs, including subcategories), color, size,
+ * minPrice, maxPrice, inStock, onSale, search
+ */
+export async function buildProductFilters(query: Record<string, unknown>): Promise<ProductFilters> {
+  const { category, color, size, minPrice, maxPrice, inStock, onSale, search } = query;
+
+  const baseFilter: Record<string, any> = { isActive: true };
+  const filters: FacetFilters = {};
+
+  if (category) {
+    const categoryIds = [];
+    for (const value of parseList(category)) {
+      const categoryDoc = await findCategory(value);
+      if (categoryDoc?.isActive) {
+        categoryIds.push(...await getCategoryWithDescendantIds(categoryDoc._id, { activeOnly: true }));
+      }
+    }
+    filters.category = { category: { $in: categoryIds } };
+  }
+
+  const colors = parseList(color);
+  if (colors.length > 0) {
+    filters.color = { colors: { $in: colors } };
+  }
+
+  // sizes holds size chart subdocuments - match on their name
+  const sizes = parseList(size);
+  if (sizes.length > 0) {
+    filters.size = { 'sizes.name': { $in: sizes } };
+  }
+
+  if (minPrice || maxPrice) {
+    const price: Record<string, number> = {};
+    if (minPrice) price.$gte = Number(minPrice);
+    if (maxPrice) price.$lte = Number(maxPrice);
+    filters.price = { price };
+  }
+
+  // "In stock" means in stock in the color and size the shopper picked
+  const inStockFilter = {
+    variants: {
+      $elemMatch: {
+        isActive: true,
+        stock: { $gt: 0 },
+        ...(colors.length > 0 && { color: { $in: colors } }),
+        ...(sizes.length > 0 && { size: { $in: sizes } }),
+      },
+    },
+  };
+
+  if (inStock === 'true') {
+    filters.availability = inStockFilter;
+  }
+
+  if (onSale === 'true') {
+    baseFilter.$expr = { $gt: ['$compareAtPrice', '$price'] };
+  }
+
+  if (search) {
+    baseFilter.$text = { $search: String(search) };
+  }
+
+  return { baseFilter, filters, inStockFilter };
+}
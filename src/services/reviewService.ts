@@ -0,0 +1,160 @@
+import mongoose from 'mongoose';
+import { Review, IReview, ReviewStatus } from '../models/Review.js';
+import { Product } from '../models/Product.js';
+import { Order } from '../models/Order.js';
+
+const MAX_REVIEW_PHOTOS = 5;
+
+/**
+ * A review request the customer can fix, with the HTTP status to answer with
+ */
+export class ReviewError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export interface ReviewInput {
+  rating: number;
+  title: string;
+  body: string;
+  photos?: string[];
+}
+
+/**
+ * Check a review from a request body
+ * @returns An error message, or null when the review is valid
+ */
+export function validateReviewInput(input: Partial<ReviewInput>): string | null {
+  const rating = Number(input.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return 'Rating must be a whole number from 1 to 5';
+  }
+
+  if (!input.title || !String(input.title).trim()) {
+    return 'Title is required';
+  }
+
+  if (!input.body || !String(input.body).trim()) {
+    return 'Review text is required';
+  }
+
+  if (input.photos !== undefined) {
+    if (!Array.isArray(input.photos) || input.photos.length > MAX_REVIEW_PHOTOS) {
+      return `Up to ${MAX_REVIEW_PHOTOS} photos are allowed`;
+    }
+    if (input.photos.some(photo => typeof photo !== 'string' || !/^https:\/\//.test(photo))) {
+      return 'Photos must be https URLs';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Post a review. Only customers with a delivered order containing the
+ * product can review it, so every review is a verified purchase.
+ * New reviews wait in the moderation queue.
+ */
+export async function createReview(userId: string, productId: string, input: ReviewInput): Promise<IReview> {
+  if (!mongoose.isValidObjectId(productId) || !await Product.exists({ _id: productId, isActive: true })) {
+    throw new ReviewError('Product not found', 404);
+  }
+
+  const order = await Order.findOne({
+    user: userId,
+    orderStatus: 'delivered',
+    'items.product': productId,
+  }).sort({ deliveredAt: -1 });
+
+  if (!order) {
+    throw new ReviewError('You can only review products from your delivered orders', 400);
+  }
+
+  if (await Review.exists({ product: productId, user: userId })) {
+    throw new ReviewError('You have already reviewed this product', 400);
+  }
+
+  try {
+    return await Review.create({
+      product: productId,
+      user: userId,
+      order: order._id,
+      rating: Number(input.rating),
+      title: input.title,
+      body: input.body,
+      photos: input.photos || [],
+      isVerifiedPurchase: true,
+    });
+  } catch (error: any) {
+    // Duplicate key - a second review that raced past the exists check
+    if (error.code === 11000) {
+      throw new ReviewError('You have already reviewed this product', 400);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Recalculate a product's ratingAverage and ratingCount from its approved reviews
+ */
+export async function refreshProductRating(productId: unknown) {
+  const [stats] = await Review.aggregate([
+    { $match: { product: new mongoose.Types.ObjectId(String(productId)), status: 'approved' } },
+    { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+  ]);
+
+  await Product.updateOne(
+    { _id: productId },
+    {
+      ratingAverage: stats ? Math.round(stats.average * 10) / 10 : 0,
+      ratingCount: stats?.count || 0,
+    }
+  );
+}
+
+/**
+ * Approve or reject a review and update the product rating
+ */
+export async function moderateReview(
+  reviewId: string,
+  status: Exclude<ReviewStatus, 'pending'>,
+  moderatedBy: string,
+  note?: string
+): Promise<IReview> {
+  const review = await Review.findById(reviewId);
+
+  if (!review) {
+    throw new Error('Review not found');
+  }
+
+  review.status = status;
+  review.moderatedBy = new mongoose.Types.ObjectId(moderatedBy);
+  review.moderatedAt = new Date();
+  review.moderationNote = note;
+  await review.save();
+
+  await refreshProductRating(review.product);
+
+  return review;
+}
+
+/**
+ * Delete a review and update the product rating
+ * @param userId - Only delete the review if it belongs to this user
+ */
+export async function deleteReview(reviewId: string, userId?: string): Promise<IReview> {
+  const review = await Review.findOneAndDelete({
+    _id: reviewId,
+    ...(userId ? { user: userId } : {}),
+  });
+
+  if (!review) {
+    throw new Error('Review not found');
+  }
+
+  await refreshProductRating(review.product);
+
+  return review;
+}
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { User, IUser } from '../models/User.js';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Mama Dye Dreams';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const TOTP_WINDOW = 1; // Accept one step either side for clock drift
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// 2FA is mandatory for admins unless explicitly switched off
+const REQUIRE_ADMIN_2FA = process.env.REQUIRE_ADMIN_2FA !== 'false';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * RFC 4226 HOTP value for a counter
+ */
+function generateHotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return code.toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Find the RFC 6238 time step a code is valid for, within the drift window
+ * @returns The matching time step, or null
+ */
+function matchTotpStep(secret: string, code: string): number | null {
+  const normalized = String(code).replace(/\s+/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    const expected = Buffer.from(generateHotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]+/g, '')).digest('hex');
+}
+
+/**
+ * Generate a fresh set of single-use recovery codes and the hashes we store
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Whether the user must enrol in 2FA before using admin routes
+ */
+export function needsTwoFactorEnrolment(user: IUser): boolean {
+  return REQUIRE_ADMIN_2FA && user.role === 'admin' && !user.twoFactorEnabled;
+}
+
+/**
+ * Start enrolment: store a pending secret and return it with the otpauth URI
+ * for authenticator apps. Replaces any previous pending secret.
+ */
+export async function startTwoFactorSetup(userId: string) {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  user.twoFactorPendingSecret = secret;
+  await user.save();
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return {
+    secret,
+    otpauthUri: `otpauth://totp/${label}?${params.toString()}`,
+  };
+}
+
+/**
+ * Finish enrolment by confirming a code from the pending secret.
+ * Returns the recovery codes - they are only ever shown once.
+ */
+export async function enableTwoFactor(userId: string, code: string) {
+  const user = await User.findById(userId).select('+twoFactorPendingSecret');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    throw new Error('Please start two-factor setup first');
+  }
+
+  const step = matchTotpStep(user.twoFactorPendingSecret, code);
+  if (step === null) {
+    throw new Error('Invalid authentication code');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorLastUsedStep = step;
+  user.twoFactorRecoveryCodes = hashes;
+  user.twoFactorEnabled = true;
+  user.twoFactorEnabledAt = new Date();
+  await user.save();
+
+  return { success: true, recoveryCodes: codes };
+}
+
+/**
+ * Check a second factor: an authenticator code or an unused recovery code.
+ * Accepted codes can't be used again.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const user = await User.findById(userId).select('+twoFactorSecret +twoFactorLastUsedStep');
+
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = matchTotpStep(user.twoFactorSecret, code);
+  if (step !== null) {
+    // Only accept steps newer than the last one used
+    const updated = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { twoFactorLastUsedStep: step }
+    );
+    return updated.modifiedCount === 1;
+  }
+
+  const consumed = await User.updateOne(
+    { _id: user._id, twoFactorRecoveryCodes: hashRecoveryCode(String(code)) },
+    { $pull: { twoFactorRecoveryCodes: hashRecoveryCode(String(code)) } }
+  );
+
+  if (consumed.modifiedCount === 1) {
+    console.log(`🔑 Recovery code used by ${user.email}`);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Replace the recovery codes, invalidating the old ones
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string) {
+  if (!await verifySecondFactor(userId, code)) {
+    throw new Error('Invalid authentication code');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await User.updateOne({ _id: userId }, { twoFactorRecoveryCodes: hashes });
+
+  return { success: true, recoveryCodes: codes };
+}
+
+/**
+ * Turn 2FA off. Requires a current authenticator or recovery code.
+ */
+export async function disableTwoFactor(userId: string, code: string) {
+  if (!await verifySecondFactor(userId, code)) {
+    throw new Error('Invalid authentication code');
+  }
+
+  await User.updateOne(
+    { _id: userId },
+    {
+      twoFactorEnabled: false,
+      $unset: {
+        twoFactorEnabledAt: 1,
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorLastUsedStep: 1,
+        twoFactorRecoveryCodes: 1,
+      },
+    }
+  );
+
+  return { success: true };
+}
@@ -1,4 +1,5 @@
 import 'express-session';
+import { OidcAuthorizationState } from '../services/oidcProvider.js';
 
 declare module 'express-session' {
   interface SessionData {
@@ -13,6 +14,8 @@ declare module 'express-session' {
       isAdmin: boolean;
       name?: string;
     };
+    // Pending OIDC login, checked on the provider callback
+    oidc?: OidcAuthorizationState;
   }
 }
 
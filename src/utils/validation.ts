@@ -0,0 +1,55 @@
+import { IShippingAddress } from '../models/Order.js';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Indian mobile number, with or without the +91 prefix
+export const PHONE_REGEX = /^(\+91)?[6-9]\d{9}$/;
+
+// Indian pincode
+export const PINCODE_REGEX = /^\d{6}$/;
+
+const REQUIRED_ADDRESS_FIELDS = ['fullName', 'phone', 'addressLine1', 'city', 'state', 'pincode'];
+
+/**
+ * Check a phone number against the Indian mobile format (spaces are ignored)
+ */
+export function isValidPhone(phone: string): boolean {
+  return PHONE_REGEX.test(String(phone).replace(/\s+/g, ''));
+}
+
+/**
+ * Validate an address payload
+ * @returns Error message, or null if the address is valid
+ */
+export function validateAddress(address: any): string | null {
+  const missingFields = REQUIRED_ADDRESS_FIELDS.filter(field => !address?.[field]);
+
+  if (missingFields.length > 0) {
+    return `Missing required fields: ${missingFields.join(', ')}`;
+  }
+
+  if (!PINCODE_REGEX.test(address.pincode)) {
+    return 'Invalid pincode format. Must be 6 digits.';
+  }
+
+  if (!isValidPhone(address.phone)) {
+    return 'Invalid phone number format';
+  }
+
+  return null;
+}
+
+/**
+ * Pick and trim the address fields (drops anything unexpected from the payload)
+ */
+export function sanitizeAddress(address: any): IShippingAddress {
+  return {
+    fullName: String(address.fullName).trim(),
+    phone: String(address.phone).replace(/\s+/g, ''),
+    addressLine1: String(address.addressLine1).trim(),
+    ...(address.addressLine2 && { addressLine2: String(address.addressLine2).trim() }),
+    city: String(address.city).trim(),
+    state: String(address.state).trim(),
+    pincode: String(address.pincode).trim(),
+  };
+}